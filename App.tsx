@@ -1,77 +1,372 @@
-import React, { useState, useRef, useEffect, Suspense } from 'react';
+import React, { useState, useRef, useEffect, useMemo, Suspense } from 'react';
 import { Canvas } from '@react-three/fiber';
-import { OrbitControls, Stars } from '@react-three/drei';
+import { Stars } from '@react-three/drei';
 import Webcam from 'react-webcam';
-import { Camera, Maximize2, Minimize2, Hand, Volume2, VolumeX } from 'lucide-react';
+import { Camera, Circle, Keyboard, Mouse, Pointer, Clock, Gauge, Maximize2, Minimize2, Hand, RefreshCw, SlidersHorizontal, Square, Video, Aperture, Volume2, VolumeX } from 'lucide-react';
 import ParticleSystem from './components/ParticleSystem';
+import StatsOverlay, { PerformanceProbe } from './components/StatsOverlay';
+import AudioSettingsPanel from './components/AudioSettingsPanel';
+import NarrationPanel from './components/NarrationPanel';
+import CaptureIndicator, { CaptureProbe } from './components/SceneCapture';
+import SceneInputDriver from './components/SceneInputDriver';
+import AudioDriver from './components/AudioDriver';
+import ReplayControls from './components/ReplayControls';
+import BodyCarousel from './components/BodyCarousel';
+import BodyInfoCard from './components/BodyInfoCard';
 import { useHandTracking } from './hooks/useHandTracking';
-import { generateCreativePhrases } from './services/geminiService';
+import { useManualInput } from './hooks/useManualInput';
+import { useSceneCapture } from './hooks/useSceneCapture';
+import { phraseQueue } from './services/phrases';
 import { audioService } from './services/audioService';
-import { CelestialBodyConfig } from './types';
-import { CELESTIAL_BODIES } from './data';
+import { narrator } from './services/narration';
+import { getSoundPalette } from './services/soundPalette';
+import { CaptureOverlay, CaptureTarget } from './services/sceneCapture';
+import { ExpansionBand, createSceneInput } from './services/sceneInput';
+import { loadCatalogFromFile, loadCatalogFromUrl } from './services/catalogLoader';
+import { downloadRecording, isRecordingFile, landmarkRecorder, loadRecordingFromFile, loadRecordingFromUrl } from './services/landmarkRecording';
+import { LandmarkReplay } from './services/landmarkReplay';
+import { getDwellMs, getNavigationOrder, pickRandomBody, stepTour } from './services/navigation';
+import { createRandom, hashSeed } from './generation/random';
+import { performanceGovernor } from './services/performanceGovernor';
+import { AudioAssetName, AudioChannel, CelestialBodyConfig, CelestialCatalog, GestureEvent, GestureName, Handedness, InputAction, InputMode, LandmarkRecording, NarrationSettings, NavigationMode, OrbitClockSettings, PhraseContext, PhraseFallbackReason, PhraseInteraction, RecordedHandResult, UnitSystem } from './types';
+import { DEFAULT_CATALOG } from './data';
+import { APP_CONFIG } from './config';
+
+const GESTURE_LABELS: Record<GestureName, string> = {
+  open_palm: 'Palm Open: Expand',
+  fist: 'Fist Closed: Focus',
+  pinch: 'Pinch',
+  point: 'Point',
+  victory: 'Victory: New Phrase',
+  thumbs_up: 'Thumbs Up: Record',
+  ok_sign: 'OK'
+};
+
+// Gestures that do something; the rest are only shown
+const GESTURE_ACTIONS: Partial<Record<GestureName, InputAction>> = {
+  open_palm: { type: 'expand' },
+  fist: { type: 'contract' },
+  victory: { type: 'new-phrase' },
+  thumbs_up: { type: 'capture' }
+};
+
+// Shown while a fallback input drives the scene
+const INPUT_MODE_HINTS: Record<Exclude<InputMode, 'hand'>, { label: string, hint: string }> = {
+  mouse: { label: 'Mouse', hint: 'Scroll to focus · Drag to steer' },
+  touch: { label: 'Touch', hint: 'Pinch to focus · Drag to steer' },
+  keyboard: { label: 'Keyboard', hint: 'Space to focus · Arrows to steer · [ ] or 0–9 pick a body' }
+};
+
+// Sound files, for the retry button when they fell back to synthesis
+const SOUND_LABELS: Record<AudioAssetName, string> = {
+  bgm: 'music',
+  expand: 'expand chime',
+  contract: 'focus breath'
+};
+
+// Why the phrase on screen came from the offline set
+const FALLBACK_LABELS: Record<PhraseFallbackReason, string> = {
+  'rate-limited': 'quota reached',
+  'server-error': 'service unavailable',
+  'network-error': 'no connection',
+  'invalid-response': 'bad response',
+  'not-configured': 'not configured',
+  'client-error': 'request rejected',
+  'circuit-open': 'paused after errors',
+  'exhausted': 'no new phrases'
+};
+
+// Interactions kept for phrase context
+const MAX_HISTORY = 50;
+
+// Orbit speeds offered in the system view, in simulated days per second
+const TIME_SCALES = [
+  { label: 'Pause', days: 0 },
+  { label: '1 d/s', days: 1 },
+  { label: '10 d/s', days: 10 },
+  { label: '100 d/s', days: 100 },
+  { label: '1 yr/s', days: 365.25 }
+];
+
+// YYYY-MM-DD for <input type="date">
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const recordInference = (ms: number) => performanceGovernor.recordInference(ms);
+const recordDetection = (result: RecordedHandResult, timestamp: number) => landmarkRecorder.record(result, timestamp);
 
 const App: React.FC = () => {
   const webcamRef = useRef<Webcam>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
   
   // State
-  const [expansion, setExpansion] = useState(1); // 0 = Planet, 1 = Universe
-  const [isHandOpen, setIsHandOpen] = useState(true);
+  // Continuous hand input lives in sceneInput and is read by the scene every frame;
+  // React state below only changes on discrete events
+  const sceneInput = useRef(createSceneInput());
+  const sceneRef = useRef<HTMLDivElement>(null);
+  const [inputMode, setInputMode] = useState<InputMode>('hand');
+  const [expansionBand, setExpansionBand] = useState<ExpansionBand>('expanded');
+  const [presentHands, setPresentHands] = useState<Handedness[]>([]);
+  const [activeGesture, setActiveGesture] = useState<GestureName | null>(null);
+  // Which hand made each gesture first; the other hand making it too doesn't act again
+  const gestureOwners = useRef<Partial<Record<GestureName, Handedness>>>({});
+  const handPresent = presentHands.length > 0;
+  const isHandOpen = activeGesture !== 'fist';
   const [currentPhrase, setCurrentPhrase] = useState<string>("Breathe with the universe.");
+  const [phraseFallbackReason, setPhraseFallbackReason] = useState<PhraseFallbackReason | null>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const [phrasesCache, setPhrasesCache] = useState<string[]>([]);
   const [showUI, setShowUI] = useState(true);
+  const [showStats, setShowStats] = useState(APP_CONFIG.quality.showStats);
+
+  // Quality tier, moved by the governor under 'auto'
+  const [quality, setQuality] = useState(performanceGovernor.settings);
+  useEffect(() => performanceGovernor.subscribe(setQuality), []);
+  const pixelRatio = Math.min(quality.pixelRatio, window.devicePixelRatio || 1);
   
   // Audio Interaction State
-  const [isMuted, setIsMuted] = useState(false);
+  const [mixer, setMixer] = useState(() => audioService.getMixerSettings());
+  const [showAudioSettings, setShowAudioSettings] = useState(false);
+  const isMuted = mixer.muted;
+  const [narration, setNarration] = useState(() => narrator.getSettings());
+  const [audioProgress, setAudioProgress] = useState(() => audioService.getLoadProgress());
+  useEffect(() => audioService.subscribeLoadProgress(setAudioProgress), []);
+  const synthesizedSounds = audioProgress.assets.filter(a => a.state === 'synth').map(a => SOUND_LABELS[a.name]);
   
   // Celestial Body State
-  const [currentBody, setCurrentBody] = useState<CelestialBodyConfig>(CELESTIAL_BODIES[0]); 
+  const [catalog, setCatalog] = useState<CelestialCatalog>(DEFAULT_CATALOG);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [currentBody, setCurrentBody] = useState<CelestialBodyConfig>(DEFAULT_CATALOG.bodies[0]); 
+  const [orbitClock, setOrbitClock] = useState<OrbitClockSettings>(APP_CONFIG.orbitClock);
+
+  // Navigation: what a fist picks, and the guided tour
+  const [navigationMode, setNavigationMode] = useState<NavigationMode>(APP_CONFIG.navigation.mode);
+  const [touring, setTouring] = useState(APP_CONFIG.navigation.tour);
+  const navigationOrder = useMemo(() => getNavigationOrder(catalog), [catalog]);
+
+  // Info card for the focused body
+  const [units, setUnits] = useState<UnitSystem>(APP_CONFIG.units);
+  const [infoCollapsed, setInfoCollapsed] = useState(false);
 
-  const [handRotation, setHandRotation] = useState({ x: 0, y: 0 });
+  // Landmark recordings: replay one in place of the camera, or capture the camera to one
+  const [replay, setReplay] = useState<LandmarkReplay | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+
+  // Video and snapshot capture of the scene, with the phrase burned in
+  const captureTarget = useRef<CaptureTarget | null>(null);
+  const captureOverlay = useRef<CaptureOverlay>({ phrase: '', title: '' });
+  captureOverlay.current = { phrase: currentPhrase, title: currentBody.layout === 'system' ? catalog.name : currentBody.name };
+  const capture = useSceneCapture({
+    target: captureTarget,
+    overlay: captureOverlay,
+    onError: (err) => {
+      console.error("Capture failed:", err);
+      setLoadError(err instanceof Error ? err.message : String(err));
+    }
+  });
+
+  // Body selection follows the generation seed, so a session can be replayed
+  const selectionRandom = useRef(createRandom(hashSeed(APP_CONFIG.seed, 'selection')));
 
   const lastPhraseTime = useRef<number>(0);
+  const interactionHistory = useRef<PhraseInteraction[]>([]);
+
+  const recordInteraction = (type: PhraseInteraction['type'], body: string) => {
+    interactionHistory.current = [...interactionHistory.current, { type, body, timestamp: Date.now() }].slice(-MAX_HISTORY);
+  };
+
+  // Phrases are generated for whatever is on screen
+  const phraseContext = (body: CelestialBodyConfig): PhraseContext => ({
+    body,
+    history: interactionHistory.current,
+    includeFact: APP_CONFIG.phrases.includeFacts
+  });
 
-  // Handle hand status update from the hook
-  const handleHandUpdate = (isOpen: boolean, score: number, position: { x: number, y: number }) => {
-    const target = isOpen ? 1 : 0;
-    
-    // Smooth transition for expansion
-    setExpansion(prev => prev + (target - prev) * 0.1);
-    
-    // Logic triggered when state CHANGES
-    if (!isHandOpen && isOpen) {
-       // Hand OPENED
-       triggerNewPhrase();
-       if (!isMuted) audioService.playExpand();
-    } else if (isHandOpen && !isOpen) {
-       // Hand CLOSED
-       if (!isMuted) audioService.playContract();
-       changeCelestialBody(); // Pick a new planet
+  // What the app does for each input action, whichever source asked
+  const handleAction = (action: InputAction) => {
+    switch (action.type) {
+      case 'expand':
+        recordInteraction('expand', currentBody.name);
+        triggerNewPhrase();
+        audioService.playExpand();
+        break;
+      case 'contract':
+        audioService.playContract();
+        changeCelestialBody(); // Pick a new planet
+        break;
+      case 'new-phrase':
+        triggerNewPhrase();
+        break;
+      case 'next':
+      case 'previous':
+        focusBody(stepTour(catalog, currentBody, action.type === 'next' ? 1 : -1));
+        break;
+      case 'select-body':
+        if (navigationOrder[action.index]) focusBody(navigationOrder[action.index]);
+        break;
+      case 'capture':
+        capture.toggleRecording();
+        break;
+    }
+  };
+
+  // Gesture -> action mapping, fired when a gesture is first recognized
+  const handleGestureStart = (gesture: GestureName) => {
+    const action = GESTURE_ACTIONS[gesture];
+    if (action) handleAction(action);
+  };
+
+  // Someone is using their hands: they take over from the guided tour and from mouse,
+  // touch or keyboard, so the scene follows the hand whose gestures are acted on
+  const handsTakeOver = () => {
+    setTouring(false);
+    setInputMode('hand');
+  };
+
+  // Handle gesture events from the hook
+  const handleGestureEvent = (event: GestureEvent) => {
+    switch (event.type) {
+      case 'gesture-start': {
+        const owner = gestureOwners.current[event.gesture];
+        if (owner && owner !== event.hand) break;
+        handsTakeOver();
+        gestureOwners.current[event.gesture] = event.hand;
+        setActiveGesture(event.gesture);
+        handleGestureStart(event.gesture);
+        break;
+      }
+      case 'gesture-end':
+        if (gestureOwners.current[event.gesture] !== event.hand) break;
+        delete gestureOwners.current[event.gesture];
+        setActiveGesture(prev => (prev === event.gesture ? null : prev));
+        break;
+      case 'swipe':
+        handsTakeOver();
+        // Carousel convention: swiping left brings in the next body
+        handleAction({ type: event.direction === 'left' ? 'next' : 'previous' });
+        break;
+      case 'hand-found':
+        handsTakeOver();
+        setPresentHands(prev => (prev.includes(event.hand) ? prev : [...prev, event.hand]));
+        break;
+      case 'hand-lost': {
+        setPresentHands(prev => prev.filter(hand => hand !== event.hand));
+        // The tracker's gesture-end for this hand comes after the debounce and is
+        // dropped once ownership is gone, so its gestures end here
+        const owned = (Object.keys(gestureOwners.current) as GestureName[])
+          .filter(gesture => gestureOwners.current[gesture] === event.hand);
+        owned.forEach(gesture => delete gestureOwners.current[gesture]);
+        setActiveGesture(prev => (prev && owned.includes(prev) ? null : prev));
+        break;
+      }
     }
-    
-    setIsHandOpen(isOpen);
+  };
 
-    // Rotation Logic
-    const rotX = (0.5 - position.x) * 2; 
-    const rotY = (position.y - 0.5) * 2; 
-    setHandRotation({ x: rotX, y: rotY });
+  const focusBody = (body: CelestialBodyConfig) => {
+    if (body.name === currentBody.name) return;
+    recordInteraction('focus', body.name);
+    setCurrentBody(body);
   };
 
+  // What a closed fist focuses
   const changeCelestialBody = () => {
-    // Pick random body, but try not to pick the same one immediately
-    let newBody;
-    do {
-       const idx = Math.floor(Math.random() * CELESTIAL_BODIES.length);
-       newBody = CELESTIAL_BODIES[idx];
-    } while (newBody.name === currentBody.name);
-    
-    setCurrentBody(newBody);
+    focusBody(navigationMode === 'random'
+      ? pickRandomBody(catalog.bodies, currentBody, selectionRandom.current)
+      : stepTour(catalog, currentBody, 1));
+  };
+
+  // Guided tour: move on after each stop's dwell time (restarts if the body changes meanwhile)
+  useEffect(() => {
+    if (!touring) return;
+    const id = window.setTimeout(() => {
+      const next = stepTour(catalog, currentBody, 1);
+      focusBody(next);
+      triggerNewPhrase(next); // currentBody in this closure is still the stop being left
+    }, getDwellMs(catalog, currentBody, APP_CONFIG.navigation.dwellMs));
+    return () => window.clearTimeout(id);
+  }, [touring, catalog, currentBody]);
+
+  // --- CATALOGS ---
+
+  const applyCatalog = (next: CelestialCatalog) => {
+    setCatalog(next);
+    setCurrentBody(next.bodies[0]);
+    setLoadError(null);
+  };
+
+  const handleLoadError = (err: unknown) => {
+    console.error("Failed to load file:", err);
+    setLoadError(err instanceof Error ? err.message : String(err));
   };
 
-  const { isReady, error } = useHandTracking({
+  useEffect(() => {
+    if (APP_CONFIG.catalogUrl) {
+      loadCatalogFromUrl(APP_CONFIG.catalogUrl).then(applyCatalog).catch(handleLoadError);
+    }
+  }, []);
+
+  // --- LANDMARK RECORDINGS ---
+
+  const startReplay = (name: string) => (recording: LandmarkRecording) => {
+    setReplay(new LandmarkReplay(recording, name));
+    setLoadError(null);
+  };
+
+  useEffect(() => {
+    const url = APP_CONFIG.tracking.replayUrl;
+    if (url) loadRecordingFromUrl(url).then(startReplay(url)).catch(handleLoadError);
+  }, []);
+
+  const toggleRecording = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!landmarkRecorder.isRecording) {
+      landmarkRecorder.start();
+      setIsRecording(true);
+      return;
+    }
+    const recording = landmarkRecorder.stop();
+    setIsRecording(false);
+    if (recording) downloadRecording(recording);
+  };
+
+  // Dropping a .json file anywhere loads it as a catalog, or replays it if it's a
+  // .landmarks.json recording
+  const handleDragOver = (e: React.DragEvent) => {
+    if (e.dataTransfer.types.includes('Files')) e.preventDefault();
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    if (isRecordingFile(file)) {
+      loadRecordingFromFile(file).then(startReplay(file.name)).catch(handleLoadError);
+    } else {
+      loadCatalogFromFile(file).then(applyCatalog).catch(handleLoadError);
+    }
+  };
+
+  const { isReady, error, handFrame } = useHandTracking({
     videoRef: videoRef,
-    onHandUpdate: handleHandUpdate
+    onGestureEvent: handleGestureEvent,
+    assetSources: APP_CONFIG.mediapipeSources,
+    detectionIntervalMs: quality.detectionIntervalMs,
+    maxRateHz: APP_CONFIG.tracking.maxRateHz,
+    onInference: recordInference,
+    onDetection: recordDetection,
+    replay
+  });
+
+  // The camera can fail independently of the model
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const trackingError = cameraError ?? error;
+
+  // Mouse, touch and keyboard take over from the hands on first use
+  const { target: manualTarget } = useManualInput({
+    elementRef: sceneRef,
+    onAction: handleAction,
+    onActivity: (mode) => {
+      setInputMode(mode);
+      setTouring(false);
+    }
   });
 
   // Keep videoRef synced with webcam
@@ -81,33 +376,44 @@ const App: React.FC = () => {
     }
   }, [webcamRef.current]);
 
-  const triggerNewPhrase = async () => {
+  // `body` defaults to the one on screen; pass it when the focus changes in the same step
+  const triggerNewPhrase = async (body: CelestialBodyConfig = currentBody) => {
     const now = Date.now();
     if (now - lastPhraseTime.current < 3000) return; // Cooldown 3s
     lastPhraseTime.current = now;
 
-    if (phrasesCache.length > 0) {
-      const next = phrasesCache[0];
-      setPhrasesCache(prev => prev.slice(1));
-      setCurrentPhrase(next);
-      
-      if (phrasesCache.length < 3) {
-        const newPhrases = await generateCreativePhrases(5);
-        setPhrasesCache(prev => [...prev, ...newPhrases]);
-      }
-    } else {
+    const context = phraseContext(body);
+
+    // Nothing buffered yet: show a placeholder while the provider answers
+    if (phraseQueue.size(context) === 0) {
       setCurrentPhrase("Drifting in starlight...");
-      const newPhrases = await generateCreativePhrases(3);
-      if (newPhrases.length > 0) {
-        setCurrentPhrase(newPhrases[0]);
-        setPhrasesCache(newPhrases.slice(1));
-      }
     }
+    const result = await phraseQueue.next(context);
+    setCurrentPhrase(result.text);
+    setPhraseFallbackReason(result.fallbackReason ?? null);
+    narrator.speak(result.text); // Cuts off the previous phrase if it's still being read
   };
 
+  // Warm up phrases for each body as soon as it is shown
   useEffect(() => {
-    generateCreativePhrases(5).then(phrases => setPhrasesCache(phrases));
-  }, []);
+    phraseQueue.prefill(phraseContext(currentBody));
+  }, [currentBody]);
+
+  // Each body has its own tonal palette for the generative sound
+  useEffect(() => {
+    audioService.setPalette(getSoundPalette(currentBody));
+  }, [currentBody]);
+
+  // Introduce each focused body when narration asks for it (and the current one when it
+  // is switched on). Not before anyone has interacted with the page: browsers refuse
+  // speech until then, so the body shown on load is skipped.
+  useEffect(() => {
+    const description = currentBody.info?.description;
+    const interacted = navigator.userActivation?.hasBeenActive ?? true;
+    if (!narration.bodyInfo || !description || !interacted) return;
+    const name = currentBody.layout === 'system' ? catalog.name : currentBody.name;
+    narrator.speak(`${name}. ${description}`, 'body');
+  }, [currentBody, catalog, narration.bodyInfo]);
 
   const toggleFullscreen = () => {
     if (!document.fullscreenElement) {
@@ -126,16 +432,25 @@ const App: React.FC = () => {
       audioService.startAmbient().catch(() => {});
   };
 
+  const setMuted = (muted: boolean) => {
+      if (muted) narrator.cancel();
+      audioService.setMuted(muted).catch(() => {});
+      setMixer(audioService.getMixerSettings());
+  };
+
+  const setChannelVolume = (channel: AudioChannel, volume: number) => {
+      audioService.setChannelVolume(channel, volume);
+      setMixer(audioService.getMixerSettings());
+  };
+
+  const updateNarration = (changes: Partial<NarrationSettings>) => {
+      narrator.update(changes);
+      setNarration(narrator.getSettings());
+  };
+
   const toggleMute = (e: React.MouseEvent) => {
       e.stopPropagation();
-      if (isMuted) {
-          audioService.setVolume(0.4);
-          setIsMuted(false);
-          audioService.startAmbient(); // Ensure it starts if it hasn't
-      } else {
-          audioService.setVolume(0);
-          setIsMuted(true);
-      }
+      setMuted(!isMuted);
   };
 
   return (
@@ -143,18 +458,24 @@ const App: React.FC = () => {
       className="relative w-full h-screen bg-black overflow-hidden font-sans selection:bg-purple-500 selection:text-white"
       onClick={handleInteraction}
       onPointerDown={handleInteraction}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
     >
       
       {/* 1. The 3D Scene */}
-      <div className="absolute inset-0 z-0">
-        <Canvas camera={{ position: [0, 0, 12], fov: 45 }}>
+      <div ref={sceneRef} className="absolute inset-0 z-0 touch-none">
+        {/* No OrbitControls: a pointer drag steers the scene (useManualInput) and would fight them for it */}
+        <Canvas camera={{ position: [0, 0, 12], fov: 45 }} dpr={pixelRatio}>
+          <PerformanceProbe />
+          <CaptureProbe target={captureTarget} />
+          <SceneInputDriver handFrame={handFrame} manualTarget={manualTarget} mode={inputMode} holdFocus={touring} input={sceneInput} onExpansionBandChange={setExpansionBand} />
+          <AudioDriver handFrame={handFrame} input={sceneInput} />
           <ambientLight intensity={0.5} />
           <pointLight position={[0, 0, 0]} intensity={1.5} color="#ffaa00" />
-          <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={0.5} />
+          <Stars radius={100} depth={50} count={quality.starCount} factor={4} saturation={0} fade speed={0.5} />
           <Suspense fallback={null}>
-            <ParticleSystem expansion={expansion} rotationInfluence={handRotation} bodyConfig={currentBody} />
+            <ParticleSystem input={sceneInput} bodyConfig={currentBody} catalog={catalog.bodies} renderMode={APP_CONFIG.renderMode} orbitClock={orbitClock} morph={APP_CONFIG.morph} seed={APP_CONFIG.seed} particleCount={quality.particleCount} />
           </Suspense>
-          <OrbitControls enableZoom={false} enablePan={false} autoRotate={false} />
         </Canvas>
       </div>
 
@@ -165,8 +486,8 @@ const App: React.FC = () => {
           width={640}
           height={480}
           mirrored
-          screenshotFormat="image/jpeg"
           videoConstraints={{ facingMode: "user" }}
+          onUserMediaError={() => setCameraError("Camera unavailable or permission denied.")}
         />
       </div>
 
@@ -177,16 +498,84 @@ const App: React.FC = () => {
         <header className="flex justify-between items-start">
           <div className="flex flex-col">
              {/* Dynamic Name of the Planet - Fades in when contracted */}
-             <div className={`transition-all duration-700 ${expansion < 0.3 ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-4'}`}>
+             <div className={`transition-all duration-700 ${expansionBand === 'contracted' ? 'opacity-100 translate-y-0' : 'opacity-0 -translate-y-4'}`}>
                 <h2 className="text-3xl font-thin tracking-[0.2em] text-white/80 uppercase">
-                  {currentBody.name === "Sun" ? "Solar System" : currentBody.name}
+                  {currentBody.layout === "system" ? catalog.name : currentBody.name}
                 </h2>
+                {/* Facts card; clickable only while shown */}
+                <div className={`mt-3 ${expansionBand === 'contracted' ? 'pointer-events-auto' : ''}`}>
+                  <BodyInfoCard
+                    body={currentBody}
+                    catalog={catalog.bodies}
+                    units={units}
+                    onUnitsChange={setUnits}
+                    collapsed={infoCollapsed}
+                    onCollapsedChange={setInfoCollapsed}
+                  />
+                </div>
              </div>
           </div>
           
           <div className="flex gap-4 pointer-events-auto">
             {/* Removed Status Indicator to remove 'Startup' feel */}
+
+            {APP_CONFIG.tracking.recorder && !replay && (
+              <button 
+                  onClick={toggleRecording}
+                  className="p-2 bg-white/5 hover:bg-white/10 text-white/70 hover:text-white rounded-full transition-all backdrop-blur-sm"
+                  title={isRecording ? "Stop and download the landmark recording" : "Record hand landmarks"}
+              >
+                  {isRecording ? <Square size={20} className="text-red-400" /> : <Circle size={20} />}
+              </button>
+            )}
             
+            <button 
+                onClick={(e) => { e.stopPropagation(); capture.snapshot(); }}
+                className="p-2 bg-white/5 hover:bg-white/10 text-white/70 hover:text-white rounded-full transition-all backdrop-blur-sm"
+                title="Save a high-resolution picture"
+            >
+                <Aperture size={20} />
+            </button>
+
+            <button 
+                onClick={(e) => { e.stopPropagation(); capture.toggleRecording(); }}
+                className="p-2 bg-white/5 hover:bg-white/10 text-white/70 hover:text-white rounded-full transition-all backdrop-blur-sm"
+                title={capture.state === 'recording' ? "Stop and save the video" : capture.state === 'countdown' ? "Cancel" : "Record a video (or give a thumbs up)"}
+            >
+                {capture.state === 'idle' ? <Video size={20} /> : <Square size={20} className="text-red-400" />}
+            </button>
+
+            <button 
+                onClick={(e) => { e.stopPropagation(); setShowStats(v => !v); }}
+                className="p-2 bg-white/5 hover:bg-white/10 text-white/70 hover:text-white rounded-full transition-all backdrop-blur-sm"
+                title={showStats ? "Hide performance stats" : "Show performance stats"}
+            >
+                <Gauge size={20} />
+            </button>
+
+            {!audioProgress.done && (
+              <span className="self-center text-[10px] uppercase tracking-wider text-white/40" title="Loading music and sound effects">
+                Sounds {Math.round(audioProgress.fraction * 100)}%
+              </span>
+            )}
+            {synthesizedSounds.length > 0 && (
+              <button 
+                  onClick={(e) => { e.stopPropagation(); audioService.retryAssets(); }}
+                  className="p-2 bg-white/5 hover:bg-white/10 text-white/70 hover:text-white rounded-full transition-all backdrop-blur-sm"
+                  title={`Couldn't load ${synthesizedSounds.join(', ')}; click to try again`}
+              >
+                  <RefreshCw size={20} />
+              </button>
+            )}
+
+            <button 
+                onClick={(e) => { e.stopPropagation(); setShowAudioSettings(v => !v); }}
+                className="p-2 bg-white/5 hover:bg-white/10 text-white/70 hover:text-white rounded-full transition-all backdrop-blur-sm"
+                title={showAudioSettings ? "Hide sound settings" : "Sound settings"}
+            >
+                <SlidersHorizontal size={20} />
+            </button>
+
             <button 
                 onClick={toggleMute}
                 className="p-2 bg-white/5 hover:bg-white/10 text-white/70 hover:text-white rounded-full transition-all backdrop-blur-sm"
@@ -207,9 +596,14 @@ const App: React.FC = () => {
         {/* Center Phrase */}
         <main className="flex-1 flex flex-col items-center justify-center text-center">
           <div className="max-w-2xl px-6">
-            <p className={`text-2xl md:text-4xl lg:text-5xl font-light leading-tight text-transparent bg-clip-text bg-gradient-to-r from-yellow-100 via-yellow-200 to-yellow-500 drop-shadow-2xl transition-all duration-1000 transform ${expansion > 0.5 ? 'scale-100 opacity-100 translate-y-0' : 'scale-95 opacity-50 translate-y-4'}`}>
+            <p className={`text-2xl md:text-4xl lg:text-5xl font-light leading-tight text-transparent bg-clip-text bg-gradient-to-r from-yellow-100 via-yellow-200 to-yellow-500 drop-shadow-2xl transition-all duration-1000 transform ${expansionBand === 'expanded' ? 'scale-100 opacity-100 translate-y-0' : 'scale-95 opacity-50 translate-y-4'}`}>
               "{currentPhrase}"
             </p>
+            {phraseFallbackReason && (
+              <p className="mt-4 text-[10px] uppercase tracking-widest text-white/20" title="Phrase served from the offline fallback set">
+                Offline phrase · {FALLBACK_LABELS[phraseFallbackReason]}
+              </p>
+            )}
           </div>
         </main>
 
@@ -217,23 +611,83 @@ const App: React.FC = () => {
         <footer className="flex justify-between items-end">
           
           <div className="flex flex-col gap-2">
+            {/* Active input: hand gestures, or the fallback that took over */}
             <div className="flex items-center gap-3 bg-black/20 backdrop-blur-sm p-3 rounded-lg border border-white/5 w-fit">
-              <Camera className="w-5 h-5 text-purple-400/50" />
+              {inputMode === 'mouse' ? <Mouse className="w-5 h-5 text-purple-400/50" />
+                : inputMode === 'touch' ? <Pointer className="w-5 h-5 text-purple-400/50" />
+                : inputMode === 'keyboard' ? <Keyboard className="w-5 h-5 text-purple-400/50" />
+                : <Camera className="w-5 h-5 text-purple-400/50" />}
               <div className="flex flex-col">
-                <span className="text-xs text-gray-500 uppercase tracking-wider">Gesture</span>
+                <span className="text-xs text-gray-500 uppercase tracking-wider">
+                  {inputMode === 'hand' ? (replay ? 'Gesture · Replay' : 'Gesture') : INPUT_MODE_HINTS[inputMode].label}
+                </span>
                 <span className="text-sm font-light text-white/80 flex items-center gap-2">
-                  {isHandOpen ? (
+                  {inputMode !== 'hand' ? (
+                    <span className="text-xs text-white/60">{INPUT_MODE_HINTS[inputMode].hint}</span>
+                  ) : trackingError && !replay ? (
+                    <span className="text-xs text-red-300/80 max-w-xs">
+                      {trackingError} Use the mouse, touch or keyboard instead.
+                    </span>
+                  ) : !handPresent ? (
+                    <>
+                      <Hand className="w-4 h-4 text-white/30" /> Show your hand
+                    </>
+                  ) : isHandOpen ? (
                     <>
-                      <Hand className="w-4 h-4 text-blue-400/70" /> Palm Open: Expand
+                      <Hand className="w-4 h-4 text-blue-400/70" /> {GESTURE_LABELS[activeGesture ?? 'open_palm']}
                     </>
                   ) : (
                     <>
-                      <Hand className="w-4 h-4 text-orange-400/70 rotate-90" /> Fist Closed: Focus
+                      <Hand className="w-4 h-4 text-orange-400/70 rotate-90" /> {GESTURE_LABELS.fist}
                     </>
                   )}
                 </span>
               </div>
             </div>
+
+            {/* Orbit clock, system view only */}
+            {currentBody.layout === "system" && (
+              <div className="flex items-center gap-3 bg-black/20 backdrop-blur-sm p-3 rounded-lg border border-white/5 w-fit pointer-events-auto">
+                <Clock className="w-5 h-5 text-purple-400/50" />
+                <div className="flex flex-col gap-1">
+                  <span className="text-xs text-gray-500 uppercase tracking-wider">Orbits</span>
+                  <div className="flex items-center gap-2 text-xs">
+                    {TIME_SCALES.map(({ label, days }) => (
+                      <button
+                        key={label}
+                        onClick={() => setOrbitClock(prev => ({ ...prev, timeScale: days }))}
+                        className={`transition-colors ${orbitClock.timeScale === days ? 'text-white/90' : 'text-white/40 hover:text-white/70'}`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                    <input
+                      type="date"
+                      value={toDateInput(orbitClock.epoch)}
+                      onChange={(e) => {
+                        const epoch = new Date(e.target.value);
+                        if (!Number.isNaN(epoch.getTime())) setOrbitClock(prev => ({ ...prev, epoch }));
+                      }}
+                      className="bg-transparent text-white/60 border border-white/10 rounded px-1 [color-scheme:dark]"
+                      title="Start from the real planet positions on this date"
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+          
+          <div className="pointer-events-auto">
+            <BodyCarousel
+              bodies={navigationOrder}
+              current={currentBody}
+              onSelect={focusBody}
+              onStep={(direction) => handleAction({ type: direction > 0 ? 'next' : 'previous' })}
+              navigationMode={navigationMode}
+              onNavigationModeChange={setNavigationMode}
+              touring={touring}
+              onTouringChange={setTouring}
+            />
           </div>
           
           <div className="pointer-events-auto">
@@ -247,6 +701,40 @@ const App: React.FC = () => {
         </footer>
       </div>
       
+      {(showStats || showAudioSettings) && (
+        <div className="absolute top-20 right-6 z-20 pointer-events-auto flex flex-col items-end gap-3">
+          {showAudioSettings && (
+            <>
+              <AudioSettingsPanel settings={mixer} onVolumeChange={setChannelVolume} onMutedChange={setMuted} />
+              <NarrationPanel settings={narration} onChange={updateNarration} />
+            </>
+          )}
+          {showStats && <StatsOverlay pixelRatio={pixelRatio} />}
+        </div>
+      )}
+
+      <CaptureIndicator state={capture.state} countdown={capture.countdown} />
+
+      {replay && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-20 pointer-events-auto">
+          <ReplayControls replay={replay} onClose={() => setReplay(null)} />
+        </div>
+      )}
+
+      {loadError && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-30 max-w-xl pointer-events-auto bg-red-950/80 border border-red-500/30 text-red-100 text-xs p-4 rounded-lg backdrop-blur">
+          <div className="flex justify-between items-start gap-4">
+            <pre className="whitespace-pre-wrap font-sans">{loadError}</pre>
+            <button 
+              onClick={(e) => { e.stopPropagation(); setLoadError(null); }}
+              className="text-red-200/60 hover:text-white"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
       {!showUI && (
         <div className="absolute bottom-6 right-6 z-20 pointer-events-auto">
             <button 
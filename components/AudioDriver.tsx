@@ -0,0 +1,38 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { HandFrame } from '../types';
+import { SceneInput } from '../services/sceneInput';
+import { audioService } from '../services/audioService';
+
+interface AudioDriverProps {
+  handFrame: React.RefObject<HandFrame | null>;
+  input: React.RefObject<SceneInput>;
+}
+
+const UPDATE_INTERVAL = 0.05; // Seconds; the audio params smooth in between
+const PAN_WIDTH = 0.8; // Keep the sound off the hard edges
+
+// Feeds hand and scene state to the generative sound layer.
+// Mount after SceneInputDriver so it reads this frame's eased input.
+const AudioDriver: React.FC<AudioDriverProps> = ({ handFrame, input }) => {
+  const elapsed = useRef(0);
+
+  useFrame((_, delta) => {
+    elapsed.current += delta;
+    if (elapsed.current < UPDATE_INTERVAL) return;
+    elapsed.current = 0;
+
+    const { expansion, rotation } = input.current;
+    audioService.modulate({
+      // Without a hand (or with mouse/keyboard) the scene's openness stands in
+      openness: handFrame.current?.openness ?? expansion,
+      pan: rotation.x * PAN_WIDTH,
+      rotationSpeed: Math.min(1, Math.hypot(rotation.x, rotation.y)),
+      expansion
+    });
+  });
+
+  return null;
+};
+
+export default AudioDriver;
@@ -0,0 +1,53 @@
+import React from 'react';
+import { Volume2, VolumeX } from 'lucide-react';
+import { AudioChannel, AudioMixerSettings } from '../types';
+import { AUDIO_CHANNELS } from '../services/audioPreferences';
+
+interface AudioSettingsPanelProps {
+  settings: AudioMixerSettings;
+  onVolumeChange: (channel: AudioChannel, volume: number) => void;
+  onMutedChange: (muted: boolean) => void;
+}
+
+const CHANNEL_LABELS: Record<AudioChannel, string> = {
+  master: 'Master',
+  music: 'Music',
+  drone: 'Drone',
+  sfx: 'Effects'
+};
+
+// Per-channel levels; changes apply and persist immediately
+const AudioSettingsPanel: React.FC<AudioSettingsPanelProps> = ({ settings, onVolumeChange, onMutedChange }) => (
+  <div
+    className="bg-black/60 backdrop-blur-sm p-3 rounded-lg border border-white/10 text-xs text-white/70 w-56"
+    onClick={(e) => e.stopPropagation()}
+  >
+    <div className="flex items-center justify-between mb-2">
+      <span className="uppercase tracking-wider text-white/40">Sound</span>
+      <button
+        onClick={() => onMutedChange(!settings.muted)}
+        className={`flex items-center gap-1 transition-colors ${settings.muted ? 'text-white/90' : 'text-white/40 hover:text-white/80'}`}
+        title={settings.muted ? 'Unmute' : 'Mute'}
+      >
+        {settings.muted ? <VolumeX size={14} /> : <Volume2 size={14} />}
+        {settings.muted ? 'Muted' : 'On'}
+      </button>
+    </div>
+    {AUDIO_CHANNELS.map(channel => (
+      <label key={channel} className={`flex items-center gap-2 py-1 ${settings.muted ? 'opacity-40' : ''}`}>
+        <span className="w-14 text-white/40">{CHANNEL_LABELS[channel]}</span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={Math.round(settings.volumes[channel] * 100)}
+          onChange={(e) => onVolumeChange(channel, Number(e.target.value) / 100)}
+          className="flex-1 accent-white/70"
+        />
+        <span className="w-8 text-right tabular-nums">{Math.round(settings.volumes[channel] * 100)}</span>
+      </label>
+    ))}
+  </div>
+);
+
+export default AudioSettingsPanel;
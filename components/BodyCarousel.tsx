@@ -0,0 +1,80 @@
+import React, { useEffect, useRef } from 'react';
+import { ChevronLeft, ChevronRight, Play, Shuffle, Square } from 'lucide-react';
+import { CelestialBodyConfig, NavigationMode } from '../types';
+
+interface BodyCarouselProps {
+  bodies: CelestialBodyConfig[]; // In navigation order
+  current: CelestialBodyConfig;
+  onSelect: (body: CelestialBodyConfig) => void;
+  onStep: (direction: 1 | -1) => void;
+  navigationMode: NavigationMode;
+  onNavigationModeChange: (mode: NavigationMode) => void;
+  touring: boolean;
+  onTouringChange: (touring: boolean) => void;
+}
+
+// Direct body selection plus the navigation settings: what a fist picks and the guided tour
+const BodyCarousel: React.FC<BodyCarouselProps> = ({
+  bodies, current, onSelect, onStep, navigationMode, onNavigationModeChange, touring, onTouringChange
+}) => {
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the current body in view as the tour or gestures move on
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'center' });
+  }, [current]);
+
+  const stop = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    action();
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-2 bg-black/20 backdrop-blur-sm p-2 rounded-lg border border-white/5 max-w-[50vw]">
+      <div className="flex items-center gap-1 w-full">
+        <button onClick={stop(() => onStep(-1))} className="p-1 text-white/50 hover:text-white" title="Previous body">
+          <ChevronLeft size={18} />
+        </button>
+        <div className="flex gap-1 overflow-x-auto [scrollbar-width:none] flex-1">
+          {bodies.map(body => {
+            const isCurrent = body.name === current.name;
+            return (
+              <button
+                key={body.name}
+                ref={isCurrent ? currentRef : undefined}
+                onClick={stop(() => onSelect(body))}
+                className={`flex items-center gap-1.5 px-2 py-1 rounded-full text-xs whitespace-nowrap transition-colors ${isCurrent ? 'bg-white/15 text-white' : 'text-white/50 hover:text-white/80'}`}
+              >
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: body.colors[0] }} />
+                {body.name}
+              </button>
+            );
+          })}
+        </div>
+        <button onClick={stop(() => onStep(1))} className="p-1 text-white/50 hover:text-white" title="Next body">
+          <ChevronRight size={18} />
+        </button>
+      </div>
+      <div className="flex items-center gap-4 text-[10px] uppercase tracking-wider">
+        <button
+          onClick={stop(() => onNavigationModeChange(navigationMode === 'random' ? 'sequential' : 'random'))}
+          className="flex items-center gap-1 text-white/40 hover:text-white/80 transition-colors"
+          title="What closing your fist focuses"
+        >
+          {navigationMode === 'random' ? <Shuffle size={12} /> : <ChevronRight size={12} />}
+          Fist: {navigationMode === 'random' ? 'Random' : 'In order'}
+        </button>
+        <button
+          onClick={stop(() => onTouringChange(!touring))}
+          className={`flex items-center gap-1 transition-colors ${touring ? 'text-white/90' : 'text-white/40 hover:text-white/80'}`}
+          title={touring ? 'Stop the guided tour' : 'Visit every body in order'}
+        >
+          {touring ? <Square size={12} /> : <Play size={12} />}
+          Guided tour
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BodyCarousel;
@@ -0,0 +1,88 @@
+import React from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { CelestialBodyConfig, UnitSystem } from '../types';
+import { formatDayLength, formatLength, formatMass, formatRatio, formatYearLength } from '../services/units';
+
+interface BodyInfoCardProps {
+  body: CelestialBodyConfig;
+  catalog: CelestialBodyConfig[]; // For the orbited body's name and Earth comparisons
+  units: UnitSystem;
+  onUnitsChange: (units: UnitSystem) => void;
+  collapsed: boolean;
+  onCollapsedChange: (collapsed: boolean) => void;
+}
+
+const UNIT_LABELS: Record<UnitSystem, string> = { metric: 'km', imperial: 'mi' };
+
+// What a body orbits, for "Distance from ..."
+const orbitedName = (body: CelestialBodyConfig, catalog: CelestialBodyConfig[]) =>
+  body.orbit?.parent ?? catalog.find(b => b.layout === 'system')?.name ?? 'its star';
+
+// Facts about the focused body. Renders nothing for bodies without info.
+const BodyInfoCard: React.FC<BodyInfoCardProps> = ({ body, catalog, units, onUnitsChange, collapsed, onCollapsedChange }) => {
+  const { info } = body;
+  if (!info) return null;
+
+  // Sizes relative to Earth when the catalog has it, to answer "how big is it really?"
+  const earth = body.name === 'Earth' ? undefined : catalog.find(b => b.name === 'Earth')?.info;
+  const year = info.yearLengthDays ?? body.orbit?.periodDays;
+
+  const rows: [string, string][] = [];
+  if (info.diameterKm) {
+    const ratio = earth?.diameterKm ? ` · ${formatRatio(info.diameterKm, earth.diameterKm, 'Earth')}` : '';
+    rows.push(['Diameter', `${formatLength(info.diameterKm, units)}${ratio}`]);
+  }
+  if (info.massKg) {
+    const ratio = earth?.massKg ? ` · ${formatRatio(info.massKg, earth.massKg, 'Earth')}` : '';
+    rows.push(['Mass', `${formatMass(info.massKg, units)}${ratio}`]);
+  }
+  if (info.distanceKm) rows.push([`From ${orbitedName(body, catalog)}`, formatLength(info.distanceKm, units)]);
+  if (info.dayLengthHours) rows.push(['Day', formatDayLength(info.dayLengthHours)]);
+  if (year && body.layout !== 'system') rows.push([body.type === 'moon' ? 'Orbit' : 'Year', formatYearLength(year)]);
+  if (info.moons !== undefined) rows.push(['Moons', String(info.moons)]);
+
+  return (
+    <div className="bg-black/40 backdrop-blur-sm p-3 rounded-lg border border-white/10 text-xs text-white/70 w-80">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={(e) => { e.stopPropagation(); onCollapsedChange(!collapsed); }}
+          className="flex items-center gap-1 uppercase tracking-wider text-white/40 hover:text-white/80 transition-colors"
+          title={collapsed ? 'Show facts' : 'Hide facts'}
+        >
+          {collapsed ? <ChevronDown size={14} /> : <ChevronUp size={14} />}
+          About {body.name}
+        </button>
+        {!collapsed && (
+          <div className="flex gap-2">
+            {(['metric', 'imperial'] as UnitSystem[]).map(system => (
+              <button
+                key={system}
+                onClick={(e) => { e.stopPropagation(); onUnitsChange(system); }}
+                className={`transition-colors ${units === system ? 'text-white/90' : 'text-white/40 hover:text-white/70'}`}
+              >
+                {UNIT_LABELS[system]}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {!collapsed && (
+        <>
+          {info.description && <p className="mt-2 text-white/70 leading-relaxed">{info.description}</p>}
+          <table className="w-full mt-2">
+            <tbody>
+              {rows.map(([label, value]) => (
+                <tr key={label}>
+                  <td className="text-white/40 pr-2 align-top whitespace-nowrap">{label}</td>
+                  <td className="text-right">{value}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BodyInfoCard;
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { NarrationSettings } from '../types';
+import { narrator } from '../services/narration';
+import { MAX_NARRATION_RATE, MIN_NARRATION_RATE } from '../services/audioPreferences';
+
+interface NarrationPanelProps {
+  settings: NarrationSettings;
+  onChange: (changes: Partial<NarrationSettings>) => void;
+}
+
+const selectClassName = 'flex-1 min-w-0 bg-black/40 border border-white/10 rounded px-1 py-0.5 text-white/80';
+
+// Speech on/off, what is read, and the voice to read it with
+const NarrationPanel: React.FC<NarrationPanelProps> = ({ settings, onChange }) => {
+  // Voices arrive asynchronously; re-render when they do
+  const [, setVoices] = useState(() => narrator.getVoices());
+  useEffect(() => narrator.subscribeVoices(setVoices), []);
+
+  if (!narrator.supported) {
+    return (
+      <div className="bg-black/60 backdrop-blur-sm p-3 rounded-lg border border-white/10 text-xs text-white/40 w-56">
+        Narration isn't available in this browser.
+      </div>
+    );
+  }
+
+  const languages = narrator.getLanguages();
+  const languageVoices = narrator.getVoicesForLanguage(settings.lang);
+
+  const toggle = (field: 'enabled' | 'bodyInfo', label: string) => (
+    <label className="flex items-center gap-2 py-1">
+      <input type="checkbox" checked={settings[field]} onChange={(e) => onChange({ [field]: e.target.checked })} className="accent-white/70" />
+      {label}
+    </label>
+  );
+
+  return (
+    <div
+      className="bg-black/60 backdrop-blur-sm p-3 rounded-lg border border-white/10 text-xs text-white/70 w-56"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="uppercase tracking-wider text-white/40 mb-1">Narration</div>
+      {toggle('enabled', 'Read phrases aloud')}
+      <div className={settings.enabled ? '' : 'opacity-40 pointer-events-none'}>
+        {toggle('bodyInfo', 'Describe each body')}
+        <label className="flex items-center gap-2 py-1">
+          <span className="w-14 text-white/40">Language</span>
+          <select
+            value={settings.lang ?? ''}
+            // A voice belongs to one language; fall back to that language's default
+            onChange={(e) => onChange({ lang: e.target.value || null, voiceURI: null })}
+            className={selectClassName}
+          >
+            <option value="">Browser ({navigator.language})</option>
+            {languages.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 py-1">
+          <span className="w-14 text-white/40">Voice</span>
+          <select
+            value={settings.voiceURI ?? ''}
+            onChange={(e) => onChange({ voiceURI: e.target.value || null })}
+            className={selectClassName}
+          >
+            <option value="">Default</option>
+            {languageVoices.map(voice => <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 py-1">
+          <span className="w-14 text-white/40">Speed</span>
+          <input
+            type="range"
+            min={MIN_NARRATION_RATE}
+            max={MAX_NARRATION_RATE}
+            step={0.1}
+            value={settings.rate}
+            onChange={(e) => onChange({ rate: Number(e.target.value) })}
+            className="flex-1 accent-white/70"
+          />
+          <span className="w-8 text-right tabular-nums">{settings.rate.toFixed(1)}×</span>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default NarrationPanel;
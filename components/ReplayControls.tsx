@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { Pause, Play, Repeat, X } from 'lucide-react';
+import { ReplayState } from '../types';
+import { LandmarkReplay } from '../services/landmarkReplay';
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const REFRESH_MS = 100;
+
+interface ReplayControlsProps {
+  replay: LandmarkReplay;
+  onClose: () => void; // Back to the camera
+}
+
+const formatTime = (ms: number) => {
+  const seconds = ms / 1000;
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+// Transport for a replayed landmark recording: play/pause, loop, scrub and speed
+const ReplayControls: React.FC<ReplayControlsProps> = ({ replay, onClose }) => {
+  const [state, setState] = useState<ReplayState>(() => replay.getState());
+
+  useEffect(() => {
+    const id = window.setInterval(() => setState(replay.getState()), REFRESH_MS);
+    return () => window.clearInterval(id);
+  }, [replay]);
+
+  // Apply a control and show its effect without waiting for the next poll
+  const control = (action: () => void) => (e: React.SyntheticEvent) => {
+    e.stopPropagation();
+    action();
+    setState(replay.getState());
+  };
+
+  return (
+    <div className="bg-black/60 backdrop-blur-sm p-3 rounded-lg border border-white/10 text-xs text-white/70 w-80">
+      <div className="flex items-center justify-between mb-2">
+        <span className="uppercase tracking-wider text-white/40 truncate" title={replay.name}>Replay · {replay.name}</span>
+        <button onClick={control(onClose)} className="text-white/40 hover:text-white/80" title="Back to the camera">
+          <X size={14} />
+        </button>
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={control(() => (state.playing ? replay.pause() : replay.play()))}
+          className="text-white/70 hover:text-white"
+          title={state.playing ? 'Pause' : 'Play'}
+        >
+          {state.playing ? <Pause size={16} /> : <Play size={16} />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={state.durationMs}
+          step={10}
+          value={state.positionMs}
+          onChange={(e) => {
+            replay.seek(Number(e.target.value));
+            setState(replay.getState());
+          }}
+          onClick={(e) => e.stopPropagation()}
+          className="flex-1 accent-purple-400"
+        />
+        <span className="font-mono text-white/50 w-24 text-right">
+          {formatTime(state.positionMs)} / {formatTime(state.durationMs)}
+        </span>
+      </div>
+      <div className="flex items-center justify-between mt-2">
+        <button
+          onClick={control(() => replay.setLoop(!state.loop))}
+          className={`flex items-center gap-1 transition-colors ${state.loop ? 'text-white/90' : 'text-white/40 hover:text-white/70'}`}
+          title="Loop"
+        >
+          <Repeat size={14} /> Loop
+        </button>
+        <div className="flex gap-2">
+          {SPEEDS.map(speed => (
+            <button
+              key={speed}
+              onClick={control(() => replay.setSpeed(speed))}
+              className={`transition-colors ${state.speed === speed ? 'text-white/90' : 'text-white/40 hover:text-white/70'}`}
+            >
+              {speed}×
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { useThree } from '@react-three/fiber';
+import { CaptureState } from '../types';
+import { CaptureTarget, MAX_RECORDING_MS } from '../services/sceneCapture';
+
+// Hands the renderer, scene and camera to the capture hook. Lives inside the Canvas.
+export const CaptureProbe: React.FC<{ target: React.RefObject<CaptureTarget | null> }> = ({ target }) => {
+  const { gl, scene, camera } = useThree();
+  useEffect(() => {
+    target.current = { gl, scene, camera };
+    return () => { target.current = null; };
+  }, [gl, scene, camera, target]);
+  return null;
+};
+
+interface CaptureIndicatorProps {
+  state: CaptureState;
+  countdown: number;
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Big countdown before a video starts, then a recording badge with the time against the limit
+const CaptureIndicator: React.FC<CaptureIndicatorProps> = ({ state, countdown }) => {
+  const [elapsed, setElapsed] = useState(0);
+
+  useEffect(() => {
+    if (state !== 'recording') return;
+    const start = performance.now();
+    setElapsed(0);
+    const id = window.setInterval(() => setElapsed(performance.now() - start), 250);
+    return () => window.clearInterval(id);
+  }, [state]);
+
+  if (state === 'countdown') {
+    return (
+      <div className="absolute inset-0 z-30 flex items-center justify-center pointer-events-none">
+        <span key={countdown} className="text-9xl font-thin text-white/80 animate-pulse">{countdown}</span>
+      </div>
+    );
+  }
+
+  if (state === 'recording') {
+    return (
+      <div className="absolute top-6 left-1/2 -translate-x-1/2 z-30 pointer-events-none flex items-center gap-2 bg-black/40 backdrop-blur-sm px-3 py-1 rounded-full border border-white/10 text-xs text-white/80 tabular-nums">
+        <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+        {formatElapsed(elapsed)} / {formatElapsed(MAX_RECORDING_MS)}
+      </div>
+    );
+  }
+
+  return null;
+};
+
+export default CaptureIndicator;
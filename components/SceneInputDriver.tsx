@@ -0,0 +1,45 @@
+import React, { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { HandFrame, InputMode } from '../types';
+import { createBimanualState, updateBimanual } from '../services/bimanual';
+import { ExpansionBand, SceneInput, SceneTarget, getExpansionBand, handSceneTarget, stepSceneInput } from '../services/sceneInput';
+
+interface SceneInputDriverProps {
+  handFrame: React.RefObject<HandFrame | null>;
+  manualTarget: React.RefObject<SceneTarget>; // Mouse, touch and keyboard
+  mode: InputMode; // Source that drives the scene
+  holdFocus?: boolean; // Keep the current body focused (guided tour) whatever the source says
+  input: React.RefObject<SceneInput>;
+  onExpansionBandChange: (band: ExpansionBand) => void;
+}
+
+// Eases the scene input toward the active source every render frame.
+// Mount before the components that read the input so they see this frame's values.
+const SceneInputDriver: React.FC<SceneInputDriverProps> = ({ handFrame, manualTarget, mode, holdFocus = false, input, onExpansionBandChange }) => {
+  const bimanual = useRef(createBimanualState());
+  const lastFrameTime = useRef(-1);
+  const band = useRef<ExpansionBand>(getExpansionBand(input.current.expansion));
+
+  useFrame((_, delta) => {
+    const frame = handFrame.current;
+
+    // Bimanual anchoring advances once per processed video frame, not per render
+    if (frame && frame.timestamp !== lastFrameTime.current) {
+      lastFrameTime.current = frame.timestamp;
+      bimanual.current = updateBimanual(bimanual.current, frame.bimanual);
+    }
+
+    const target = mode === 'hand' ? handSceneTarget(frame, bimanual.current.target) : manualTarget.current;
+    stepSceneInput(input.current, holdFocus ? { ...target, expansion: 0 } : target, delta);
+
+    const next = getExpansionBand(input.current.expansion);
+    if (next !== band.current) {
+      band.current = next;
+      onExpansionBandChange(next);
+    }
+  });
+
+  return null;
+};
+
+export default SceneInputDriver;
@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { PerformanceStats, QualityPreset } from '../types';
+import { QUALITY_TIERS, performanceGovernor } from '../services/performanceGovernor';
+
+const PRESETS: { preset: QualityPreset, label: string }[] = [
+  { preset: 'low', label: 'Low' },
+  { preset: 'medium', label: 'Medium' },
+  { preset: 'high', label: 'High' },
+  { preset: 'auto', label: 'Auto' }
+];
+
+const REFRESH_MS = 500;
+
+// Feeds frame times to the governor. Lives inside the Canvas.
+export const PerformanceProbe: React.FC = () => {
+  useFrame((_, delta) => performanceGovernor.recordFrame(delta * 1000, performance.now()));
+  return null;
+};
+
+interface StatsOverlayProps {
+  pixelRatio: number; // What the canvas actually uses after clamping to the device
+}
+
+// Live numbers plus the quality preset picker
+const StatsOverlay: React.FC<StatsOverlayProps> = ({ pixelRatio }) => {
+  const [stats, setStats] = useState<PerformanceStats>(() => performanceGovernor.getStats());
+
+  useEffect(() => {
+    const id = window.setInterval(() => setStats(performanceGovernor.getStats()), REFRESH_MS);
+    return () => window.clearInterval(id);
+  }, []);
+
+  const settings = QUALITY_TIERS[stats.tier];
+  const detectionHz = settings.detectionIntervalMs > 0 ? `${Math.round(1000 / settings.detectionIntervalMs)} Hz` : 'every frame';
+
+  const rows: [string, string][] = [
+    ['FPS', stats.fps.toFixed(0)],
+    ['Frame', `${stats.frameMs.toFixed(1)} ms`],
+    ['Hand inference', `${stats.inferenceMs.toFixed(1)} ms`],
+    ['Tier', stats.preset === 'auto' ? `${stats.tier} (auto)` : stats.tier],
+    ['Particles', settings.particleCount.toLocaleString()],
+    ['Stars', settings.starCount.toLocaleString()],
+    ['Pixel ratio', pixelRatio.toFixed(2)],
+    ['Detection', detectionHz]
+  ];
+
+  return (
+    <div className="bg-black/60 backdrop-blur-sm p-3 rounded-lg border border-white/10 text-xs text-white/70 font-mono w-56">
+      <table className="w-full">
+        <tbody>
+          {rows.map(([label, value]) => (
+            <tr key={label}>
+              <td className="text-white/40 pr-2">{label}</td>
+              <td className="text-right">{value}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="flex justify-between mt-3 font-sans">
+        {PRESETS.map(({ preset, label }) => (
+          <button
+            key={preset}
+            onClick={() => {
+              performanceGovernor.setPreset(preset);
+              setStats(performanceGovernor.getStats());
+            }}
+            className={`px-2 py-1 rounded transition-colors ${stats.preset === preset ? 'bg-white/15 text-white' : 'text-white/40 hover:text-white/80'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default StatsOverlay;
@@ -0,0 +1,50 @@
+import { BodyGeometry } from '../generation/bodyGeometry';
+import { MorphEasing } from '../types';
+
+// Body-to-body transitions. The particles being left behind are kept as a "source"
+// (absolute targets, explosion cloud and colors) that both render paths blend toward
+// the new body by the eased morph progress.
+
+export const MORPH_EASINGS: Record<MorphEasing, (t: number) => number> = {
+  linear: t => t,
+  easeInOutCubic: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeOutCubic: t => 1 - Math.pow(1 - t, 3),
+  easeInOutSine: t => -(Math.cos(Math.PI * t) - 1) / 2
+};
+
+export interface MorphSource {
+  targets: Float32Array;
+  initials: Float32Array;
+  colors: Float32Array;
+}
+
+export const createMorphSource = (count: number): MorphSource => ({
+  targets: new Float32Array(count * 3),
+  initials: new Float32Array(count * 3),
+  colors: new Float32Array(count * 3)
+});
+
+// Bakes what is on screen right now into the source: the old source blended toward the
+// shown body by `progress` (eased), with orbit offsets frozen at their current values.
+// A change that arrives mid-morph therefore starts from wherever the particles are.
+// Idempotent at progress 0, so calling it twice for the same change is harmless.
+export const captureMorphSource = (
+  source: MorphSource,
+  shown: BodyGeometry,
+  offsets: Float32Array,
+  progress: number
+) => {
+  const { targets, initials, colors } = source;
+  const keep = 1 - progress;
+
+  for (let i = 0; i < shown.bodyIndices.length; i++) {
+    const b3 = shown.bodyIndices[i] * 3;
+    for (let k = 0; k < 3; k++) {
+      const j = i * 3 + k;
+      const offset = b3 >= 0 ? offsets[b3 + k] : 0;
+      targets[j] = targets[j] * keep + (shown.targetPositions[j] + offset) * progress;
+      initials[j] = initials[j] * keep + shown.initialPositions[j] * progress;
+      colors[j] = colors[j] * keep + shown.colors[j] * progress;
+    }
+  }
+};
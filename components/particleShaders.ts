@@ -0,0 +1,64 @@
+// GLSL for the GPU particle path.
+// Mirrors the CPU loop in ParticleSystem: blend target -> initial by expansion,
+// then add the slow sine drift. Expansion is smoothed on the JS side so the
+// result matches the per-particle lerp of the CPU fallback.
+// Orbiting bodies are offset by their current orbit position (aBody indexes
+// uBodyOffsets, -1 for static particles). During a body change the previous
+// body (aFrom*) is crossfaded into the new one by uMorph, positions and colors.
+
+import { MAX_ORBITERS } from '../generation/orbits';
+
+export const particleVertexShader = /* glsl */ `
+  uniform float uExpansion;
+  uniform float uTime;
+  uniform float uNoiseIntensity;
+  uniform float uSize;
+  uniform float uScale;
+  uniform vec3 uBodyOffsets[${MAX_ORBITERS}];
+  uniform float uMorph;
+
+  attribute vec3 aInitial;
+  attribute vec3 aRandom;
+  attribute float aBody;
+  attribute vec3 aFromTarget;
+  attribute vec3 aFromInitial;
+  attribute vec3 aFromColor;
+
+  varying vec3 vColor;
+
+  void main() {
+    // position holds the body target, aInitial the exploded universe cloud
+    vec3 target = position;
+    if (aBody >= 0.0) target += uBodyOffsets[int(aBody + 0.5)];
+    vec3 shown = mix(target, aInitial, uExpansion);
+    vec3 previous = mix(aFromTarget, aFromInitial, uExpansion);
+    vec3 blended = mix(previous, shown, uMorph);
+
+    vec3 drift = vec3(
+      sin(uTime * 0.5 + aRandom.x * 100.0),
+      cos(uTime * 0.3 + aRandom.y * 100.0),
+      sin(uTime * 0.5 + aRandom.z * 100.0)
+    ) * uNoiseIntensity * 0.2;
+
+    vec4 mvPosition = modelViewMatrix * vec4(blended + drift, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+
+    // Same size attenuation as THREE.PointsMaterial
+    gl_PointSize = uSize * (uScale / -mvPosition.z);
+
+    vColor = mix(aFromColor, color, uMorph);
+  }
+`;
+
+export const particleFragmentShader = /* glsl */ `
+  uniform float uOpacity;
+
+  varying vec3 vColor;
+
+  void main() {
+    gl_FragColor = vec4(vColor, uOpacity);
+
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
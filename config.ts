@@ -0,0 +1,115 @@
+import { parseSeed } from './generation/random';
+import { AudioAssetSourceName, MediaPipeAssetSourceName, MorphEasing, MorphSettings, NavigationMode, OrbitClockSettings, QualityPreset, ParticleRenderMode, PhraseProviderConfig, PhraseProviderName, UnitSystem } from './types';
+
+// Runtime options read from the page URL, e.g. `?render=cpu`
+const params = new URLSearchParams(window.location.search);
+
+// Comma-separated list of known values, e.g. `?assets=local,cdn`
+const parseList = <T extends string>(value: string | null, allowed: readonly T[], fallback: T[]): T[] => {
+  if (!value) return fallback;
+  const items = value.split(',').map(v => v.trim()).filter((v): v is T => (allowed as readonly string[]).includes(v));
+  return items.length > 0 ? items : fallback;
+};
+
+// `?date=2031-05-04`; anything Date can't parse falls back to now
+const parseDate = (value: string | null) => {
+  const date = value ? new Date(value) : new Date();
+  return Number.isNaN(date.getTime()) ? new Date() : date;
+};
+
+const parseNumber = (value: string | null, fallback: number) => {
+  const n = value === null ? NaN : Number(value);
+  return Number.isFinite(n) ? n : fallback;
+};
+
+// `?seed=` fixes body generation and selection; a `?seed=random` pick is logged so the run can be replayed
+const seed = parseSeed(params.get('seed'));
+if (params.get('seed') === 'random') console.info(`Generation seed ${seed} (reproduce with ?seed=${seed})`);
+
+const EASING_NAMES: MorphEasing[] = ['linear', 'easeInOutCubic', 'easeOutCubic', 'easeInOutSine'];
+
+const QUALITY_PRESETS: QualityPreset[] = ['auto', 'low', 'medium', 'high'];
+
+const PHRASE_PROVIDERS: PhraseProviderName[] = ['gemini', 'openai', 'static', 'mock'];
+
+// `?phrases=<provider>` overrides the PHRASE_PROVIDER build variable
+const phraseProvider = [params.get('phrases'), process.env.PHRASE_PROVIDER]
+  .find((p): p is PhraseProviderName => PHRASE_PROVIDERS.includes(p as PhraseProviderName)) ?? 'gemini';
+
+export const APP_CONFIG: {
+  renderMode: ParticleRenderMode;
+  mediapipeSources: MediaPipeAssetSourceName[];
+  audioSources: AudioAssetSourceName[];
+  phrases: PhraseProviderConfig;
+  catalogUrl: string | null;
+  orbitClock: OrbitClockSettings;
+  morph: MorphSettings;
+  seed: number;
+  quality: { preset: QualityPreset, targetFps: number, showStats: boolean };
+  tracking: { maxRateHz: number, replayUrl: string | null, recorder: boolean };
+  navigation: { mode: NavigationMode, tour: boolean, dwellMs: number };
+  units: UnitSystem;
+  narrate: boolean;
+  capture: { overlay: boolean, audio: boolean, snapshotScale: number };
+} = {
+  // GPU shader path unless explicitly forced onto the CPU fallback
+  renderMode: params.get('render') === 'cpu' ? 'cpu' : 'gpu',
+  // Bundled assets first, CDN as fallback. `?assets=local` for fully offline kiosks.
+  mediapipeSources: parseList(params.get('assets'), ['local', 'cdn'] as const, ['local', 'cdn']),
+  // Music and sound effects follow the same order; with neither they are synthesized
+  audioSources: parseList(params.get('assets'), ['local', 'cdn'] as const, ['local', 'cdn']),
+  phrases: {
+    provider: phraseProvider,
+    geminiApiKey: process.env.GEMINI_API_KEY || '',
+    openAiBaseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:8080/v1',
+    openAiModel: process.env.OPENAI_MODEL || 'local-model',
+    openAiApiKey: process.env.OPENAI_API_KEY || '',
+    staticUrl: process.env.PHRASES_URL || '/phrases.json',
+    // `?facts=1` or PHRASE_FACTS=true, for planetarium sessions
+    includeFacts: params.get('facts') === '1' || process.env.PHRASE_FACTS === 'true'
+  },
+  // `?catalog=<url>` loads a JSON body catalog instead of the built-in solar system
+  catalogUrl: params.get('catalog'),
+  // System view starts at real positions for `?date=` (default today), `?timescale=` days per second
+  orbitClock: {
+    epoch: parseDate(params.get('date')),
+    timeScale: parseNumber(params.get('timescale'), 10)
+  },
+  // Body transitions: `?morph=<ms>` (0 snaps) and `?easing=<name>`
+  morph: {
+    durationMs: Math.max(0, parseNumber(params.get('morph'), 1500)),
+    easing: parseList(params.get('easing'), EASING_NAMES, ['easeInOutCubic'])[0]
+  },
+  seed,
+  // `?quality=low|medium|high|auto` (default auto), `?fps=` target, `?stats=1` opens the overlay
+  quality: {
+    preset: parseList(params.get('quality'), QUALITY_PRESETS, ['auto'])[0],
+    targetFps: Math.max(10, parseNumber(params.get('fps'), 60)),
+    showStats: params.get('stats') === '1'
+  },
+  // `?trackinghz=` caps hand detections per second (default 30); detection also waits for new camera frames.
+  // `?replay=<url>` plays a landmark recording instead of the camera, `?record=1` shows the record button.
+  tracking: {
+    maxRateHz: Math.max(1, parseNumber(params.get('trackinghz'), 30)),
+    replayUrl: params.get('replay'),
+    recorder: params.get('record') === '1'
+  },
+  // `?navigation=sequential` makes a fist step through the tour instead of picking at random.
+  // `?tour=1` starts the guided tour, `?dwell=` seconds per stop unless the catalog says otherwise.
+  navigation: {
+    mode: parseList(params.get('navigation'), ['random', 'sequential'] as const, ['random'])[0],
+    tour: params.get('tour') === '1',
+    dwellMs: Math.max(1, parseNumber(params.get('dwell'), 15)) * 1000
+  },
+  // Info card units: `?units=metric|imperial`, otherwise imperial only for US English browsers
+  units: parseList(params.get('units'), ['metric', 'imperial'] as const, [navigator.language === 'en-US' ? 'imperial' : 'metric'])[0],
+  // `?narrate=1` turns spoken phrases on for this visit, whatever the saved setting says
+  narrate: params.get('narrate') === '1',
+  // Videos include the phrase and the sound unless `?captureoverlay=0` / `?captureaudio=0`.
+  // `?snapshot=<n>` renders stills at n times the screen resolution (default 2).
+  capture: {
+    overlay: params.get('captureoverlay') !== '0',
+    audio: params.get('captureaudio') !== '0',
+    snapshotScale: Math.min(Math.max(parseNumber(params.get('snapshot'), 2), 1), 4)
+  }
+};
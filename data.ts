@@ -1,6 +1,10 @@
 
-import { CelestialBodyConfig } from './types';
+import { CelestialBodyConfig, CelestialCatalog } from './types';
 
+// Orbits use J2000 mean elements (JPL "Keplerian Elements for Approximate Positions
+// of the Major Planets", valid 1800-2050). The Moon's are mean values; its perigee
+// and node precess, so its position is only indicative.
+// Info values follow the NASA planetary fact sheets; moon counts are as of 2025.
 export const CELESTIAL_BODIES: CelestialBodyConfig[] = [
   {
     name: "Sun",
@@ -9,7 +13,10 @@ export const CELESTIAL_BODIES: CelestialBodyConfig[] = [
     // Fiery Palette: Bright Yellow, Deep Orange, Red, Dark Red
     colors: ["#FFF700", "#FF8C00", "#FF4500", "#8B0000"], 
     hasRings: false,
-    textureType: "noise"
+    textureType: "noise",
+    layout: "system",
+    info: { diameterKm: 1392700, massKg: 1.989e30, dayLengthHours: 609.12, description: "A middle-aged yellow dwarf star holding 99.8% of the Solar System's mass. Its light takes about 8 minutes to reach Earth." },
+    sound: { root: 108, scale: [0, 7, 12, 19, 24] }
   },
   {
     name: "Mercury",
@@ -17,7 +24,11 @@ export const CELESTIAL_BODIES: CelestialBodyConfig[] = [
     radius: 1.5,
     colors: ["#A5A5A5", "#8C8C8C", "#686868", "#4A4A4A"],
     hasRings: false,
-    textureType: "noise"
+    textureType: "noise",
+    orbitRadius: 6,
+    orbit: { semiMajorAxis: 0.38709927, eccentricity: 0.20563593, inclination: 7.00497902, periodDays: 87.969, meanLongitude: 252.2503235, longitudeOfPerihelion: 77.45779628, longitudeOfAscendingNode: 48.33076593 },
+    info: { diameterKm: 4879, massKg: 3.301e23, distanceKm: 57.9e6, dayLengthHours: 1407.6, moons: 0, description: "The smallest planet and the closest to the Sun. Days are hot enough to melt lead, nights colder than -170 °C." },
+    sound: { root: 288, scale: [0, 2, 4, 7, 9], waveform: "triangle" }
   },
   {
     name: "Venus",
@@ -25,7 +36,11 @@ export const CELESTIAL_BODIES: CelestialBodyConfig[] = [
     radius: 2.8,
     colors: ["#F5DEB3", "#E6C288", "#D2B48C", "#FFFACD"], 
     hasRings: false,
-    textureType: "noise"
+    textureType: "noise",
+    orbitRadius: 8,
+    orbit: { semiMajorAxis: 0.72333566, eccentricity: 0.00677672, inclination: 3.39467605, periodDays: 224.701, meanLongitude: 181.9790995, longitudeOfPerihelion: 131.60246718, longitudeOfAscendingNode: 76.67984255 },
+    info: { diameterKm: 12104, massKg: 4.867e24, distanceKm: 108.2e6, dayLengthHours: -5832.5, moons: 0, description: "The hottest planet, wrapped in thick clouds of sulfuric acid. It spins backwards, so the Sun rises in the west." },
+    sound: { root: 162, scale: [0, 3, 5, 7, 10] }
   },
   {
     name: "Earth",
@@ -42,7 +57,18 @@ export const CELESTIAL_BODIES: CelestialBodyConfig[] = [
         "#ffffff"  // 6 Cloud/Ice (White)
     ], 
     hasRings: false,
-    textureType: "noise"
+    textureType: "terrestrial",
+    surface: {
+      noiseScale: 1.0,
+      detailScale: 5,
+      moistureScale: 2.0,
+      polarCaps: { latitude: 0.85, color: "#ffffff" },
+      cloudLayer: { threshold: 0.55, frequency: 3.5, coverage: 0.9, height: 0.04, color: "#ffffff" }
+    },
+    orbitRadius: 10,
+    orbit: { semiMajorAxis: 1.00000261, eccentricity: 0.01671123, inclination: 0, periodDays: 365.256, meanLongitude: 100.46457166, longitudeOfPerihelion: 102.93768193, longitudeOfAscendingNode: 0 },
+    info: { diameterKm: 12756, massKg: 5.972e24, distanceKm: 149.6e6, dayLengthHours: 23.93, moons: 1, description: "Our home, and the only world known to have life and liquid water on its surface." },
+    sound: { root: 144, scale: [0, 2, 4, 7, 9, 12], waveform: "triangle" }
   },
   {
     name: "Moon",
@@ -50,7 +76,11 @@ export const CELESTIAL_BODIES: CelestialBodyConfig[] = [
     radius: 1.0,
     colors: ["#D3D3D3", "#A9A9A9", "#808080", "#F5F5F5"],
     hasRings: false,
-    textureType: "noise"
+    textureType: "noise",
+    orbitRadius: 1.0,
+    orbit: { semiMajorAxis: 0.00256955, eccentricity: 0.0549, inclination: 5.145, periodDays: 27.322, meanLongitude: 218.316, longitudeOfPerihelion: 83.353, longitudeOfAscendingNode: 125.08, parent: "Earth" },
+    info: { diameterKm: 3475, massKg: 7.346e22, distanceKm: 384400, dayLengthHours: 655.7, moons: 0, description: "Earth's only natural satellite. It always shows us the same face, and twelve people have walked on it." },
+    sound: { root: 216, scale: [0, 5, 7, 12] }
   },
   {
     name: "Mars",
@@ -58,7 +88,12 @@ export const CELESTIAL_BODIES: CelestialBodyConfig[] = [
     radius: 2.2,
     colors: ["#8B0000", "#B22222", "#CD5C5C", "#E9967A"], 
     hasRings: false,
-    textureType: "noise"
+    textureType: "noise",
+    surface: { noiseScale: 2 },
+    orbitRadius: 14,
+    orbit: { semiMajorAxis: 1.52371034, eccentricity: 0.0933941, inclination: 1.84969142, periodDays: 686.98, meanLongitude: -4.55343205, longitudeOfPerihelion: -23.94362959, longitudeOfAscendingNode: 49.55953891 },
+    info: { diameterKm: 6792, massKg: 6.417e23, distanceKm: 227.9e6, dayLengthHours: 24.62, moons: 2, description: "The red planet, colored by iron oxide dust. Home to Olympus Mons, the tallest volcano in the Solar System." },
+    sound: { root: 128, scale: [0, 1, 5, 7, 8], waveform: "sawtooth" }
   },
   {
     name: "Jupiter",
@@ -66,7 +101,12 @@ export const CELESTIAL_BODIES: CelestialBodyConfig[] = [
     radius: 4.5,
     colors: ["#8B4513", "#D2691E", "#F4A460", "#FFE4B5", "#A0522D"], 
     hasRings: false,
-    textureType: "banded"
+    textureType: "banded",
+    surface: { bandFrequency: 15, turbulence: 0.05, turbulenceFrequency: 10 },
+    orbitRadius: 20,
+    orbit: { semiMajorAxis: 5.202887, eccentricity: 0.04838624, inclination: 1.30439695, periodDays: 4332.589, meanLongitude: 34.39644051, longitudeOfPerihelion: 14.72847983, longitudeOfAscendingNode: 100.47390909 },
+    info: { diameterKm: 142984, massKg: 1.898e27, distanceKm: 778.5e6, dayLengthHours: 9.93, moons: 95, description: "The largest planet: more than 1,300 Earths would fit inside. Its Great Red Spot is a storm wider than Earth." },
+    sound: { root: 72, scale: [0, 4, 7, 11, 14], waveform: "sawtooth" }
   },
   {
     name: "Saturn",
@@ -75,7 +115,12 @@ export const CELESTIAL_BODIES: CelestialBodyConfig[] = [
     colors: ["#D8C398", "#C7B283", "#BDB76B", "#8B7355"], 
     hasRings: true,
     ringColors: ["#C0C0C0", "#D2B48C", "#8B4513"],
-    textureType: "banded"
+    textureType: "banded",
+    surface: { bandFrequency: 20 },
+    orbitRadius: 26,
+    orbit: { semiMajorAxis: 9.53667594, eccentricity: 0.05386179, inclination: 2.48599187, periodDays: 10759.22, meanLongitude: 49.95424423, longitudeOfPerihelion: 92.59887831, longitudeOfAscendingNode: 113.66242448 },
+    info: { diameterKm: 120536, massKg: 5.683e26, distanceKm: 1432.0e6, dayLengthHours: 10.66, moons: 274, description: "A gas giant with the brightest rings, made of ice and rock. It is less dense than water." },
+    sound: { root: 81, scale: [0, 2, 6, 7, 11], waveform: "triangle" }
   },
   {
     name: "Uranus",
@@ -84,7 +129,11 @@ export const CELESTIAL_BODIES: CelestialBodyConfig[] = [
     colors: ["#E0FFFF", "#AFEEEE", "#7FFFD4", "#40E0D0"], 
     hasRings: true,
     ringColors: ["#E0FFFF", "#AFEEEE"],
-    textureType: "solid"
+    textureType: "solid",
+    orbitRadius: 32,
+    orbit: { semiMajorAxis: 19.18916464, eccentricity: 0.04725744, inclination: 0.77263783, periodDays: 30685.4, meanLongitude: 313.23810451, longitudeOfPerihelion: 170.9542763, longitudeOfAscendingNode: 74.01692503 },
+    info: { diameterKm: 51118, massKg: 8.681e25, distanceKm: 2867.0e6, dayLengthHours: -17.24, moons: 29, description: "An ice giant tipped on its side, so each pole gets 42 years of sunlight followed by 42 years of darkness." },
+    sound: { root: 96, scale: [0, 2, 4, 6, 8, 10] }
   },
   {
     name: "Neptune",
@@ -92,7 +141,11 @@ export const CELESTIAL_BODIES: CelestialBodyConfig[] = [
     radius: 3.2,
     colors: ["#000080", "#0000CD", "#191970", "#4169E1"], 
     hasRings: false,
-    textureType: "noise" 
+    textureType: "noise" ,
+    orbitRadius: 38,
+    orbit: { semiMajorAxis: 30.06992276, eccentricity: 0.00859048, inclination: 1.77004347, periodDays: 60189, meanLongitude: -55.12002969, longitudeOfPerihelion: 44.96476227, longitudeOfAscendingNode: 131.78422574 },
+    info: { diameterKm: 49528, massKg: 1.024e26, distanceKm: 4515.0e6, dayLengthHours: 16.11, moons: 16, description: "The windiest planet, with storms faster than 2,000 km/h. It was found by mathematics before anyone saw it." },
+    sound: { root: 90, scale: [0, 3, 7, 10, 14], waveform: "triangle" }
   },
   {
     name: "Pluto",
@@ -100,6 +153,15 @@ export const CELESTIAL_BODIES: CelestialBodyConfig[] = [
     radius: 0.8,
     colors: ["#F5DEB3", "#D2B48C", "#C0C0C0", "#FFF8DC"],
     hasRings: false,
-    textureType: "noise"
+    textureType: "noise",
+    orbitRadius: 44,
+    orbit: { semiMajorAxis: 39.48211675, eccentricity: 0.2488273, inclination: 17.14001206, periodDays: 90560, meanLongitude: 238.92903833, longitudeOfPerihelion: 224.06891629, longitudeOfAscendingNode: 110.30393684 },
+    info: { diameterKm: 2376, massKg: 1.303e22, distanceKm: 5906.4e6, dayLengthHours: -153.3, moons: 5, description: "A dwarf planet in the Kuiper Belt, smaller than our Moon, with a heart-shaped glacier of nitrogen ice." },
+    sound: { root: 243, scale: [0, 1, 5, 6, 10] }
   }
 ];
+
+export const DEFAULT_CATALOG: CelestialCatalog = {
+  name: "Solar System",
+  bodies: CELESTIAL_BODIES
+};
@@ -0,0 +1,10 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { LandmarkRecording } from '../types';
+import { parseLandmarkRecording } from '../services/landmarkRecording';
+
+// Landmark recordings for tests, validated like a dropped file.
+// open-then-fist: synthetic, 30 fps. No hand for 300 ms, an open right hand until
+// 1320 ms, a fist until 2310 ms, then no hand again.
+export const loadFixture = (name: string): LandmarkRecording =>
+  parseLandmarkRecording(JSON.parse(readFileSync(path.join(__dirname, name), 'utf8')), name);
@@ -0,0 +1,298 @@
+import * as THREE from 'three';
+import { CelestialBodyConfig } from '../types';
+import { getSafeColor, noise } from './noise';
+import { getSurfaceGenerator } from './surfaces';
+import { MAX_ORBITERS, OrbitTrack, createOrbitTracks, findAsteroidBelt, orbitPointAt } from './orbits';
+import { createRandom, hashSeed } from './random';
+
+// Particle buffers for one body: exploded universe cloud, body target shape,
+// per-particle colors and random seeds for the drift animation.
+// In the system view, targets of orbiting bodies are relative to the body center and
+// bodyIndices names the orbit track that moves them (-1 for static particles).
+export interface BodyGeometry {
+  initialPositions: Float32Array;
+  targetPositions: Float32Array;
+  colors: Float32Array;
+  randoms: Float32Array;
+  bodyIndices: Float32Array;
+  orbitTracks: OrbitTrack[];
+}
+
+// Builds particle targets and colors for a body. Bodies with layout 'system'
+// get the whole catalog laid out on orbits around them.
+// Pure and deterministic: the same body, catalog, count and seed give identical
+// buffers, with no WebGL needed (runs in Node).
+export const generateBodyGeometry = (
+  bodyConfig: CelestialBodyConfig,
+  catalog: CelestialBodyConfig[],
+  count: number,
+  seed: number
+): BodyGeometry => {
+  // Separate streams so a body looks the same whatever else is generated
+  const random = createRandom(hashSeed(seed, 'body', bodyConfig.name));
+  const cloudRandom = createRandom(hashSeed(seed, 'explosion', bodyConfig.name));
+
+  const initPos = new Float32Array(count * 3);
+  const targetPos = new Float32Array(count * 3);
+  const cols = new Float32Array(count * 3);
+  const rands = new Float32Array(count * 3);
+  const bodyIdx = new Float32Array(count).fill(-1);
+  let tracks: OrbitTrack[] = [];
+  
+  // --- HELPER TO SET COLOR ---
+  const setColor = (i: number, color: THREE.Color) => {
+     cols[i * 3] = color.r;
+     cols[i * 3 + 1] = color.g;
+     cols[i * 3 + 2] = color.b;
+  };
+  
+  // --- GENERATION LOGIC ---
+  
+  if (bodyConfig.layout === 'system') {
+     // === SOLAR SYSTEM VISUALIZATION ===
+     // Reference layout: Sun -> Mercury -> Venus -> Earth -> Moon -> Mars -> Asteroids -> Jupiter -> Saturn -> Uranus -> Neptune -> Pluto
+     
+     const sunColors = bodyConfig.colors.map(c => new THREE.Color(c));
+     const orbitColor = new THREE.Color(0.2, 0.4, 0.8); // Light Blue orbit lines
+     const asteroidColor = new THREE.Color(0.5, 0.5, 0.5); // Grey/Rock
+
+     // Partitioning the particles
+     const sunCount = 20000;
+     const orbitCount = 9000; 
+     const asteroidCount = 8000;
+     
+     // One orbit per catalog body (system body excluded)
+     const planetList = catalog.filter(b => b.layout !== 'system').slice(0, MAX_ORBITERS);
+     tracks = createOrbitTracks(planetList);
+     const belt = findAsteroidBelt(tracks.filter(t => t.parent < 0).map(t => t.radius));
+
+     let currentIdx = 0;
+
+     // 1. THE SUN (Central Sphere)
+     for (let i = 0; i < sunCount; i++) {
+        const r = 3.5; // Large Sun
+        const theta = random() * Math.PI * 2;
+        const phi = Math.acos(2 * random() - 1);
+        
+        // Turbulent surface
+        const tx = r * Math.sin(phi) * Math.cos(theta);
+        const ty = r * Math.cos(phi);
+        const tz = r * Math.sin(phi) * Math.sin(theta);
+        
+        const n = noise(tx, ty, tz);
+        const normN = (n + 1.5) / 3;
+        const cIdx = normN * sunColors.length;
+        let color = getSafeColor(sunColors, cIdx);
+        if (random() > 0.7) color.addScalar(0.2); // Glow
+
+        targetPos[currentIdx * 3] = tx;
+        targetPos[currentIdx * 3 + 1] = ty;
+        targetPos[currentIdx * 3 + 2] = tz;
+        setColor(currentIdx, color);
+        currentIdx++;
+     }
+
+     // 2. ORBIT RINGS (Ellipses from each body's elements)
+     // Moon orbits are drawn around their parent and travel with it
+     for (let t = 0; t < tracks.length; t++) {
+         const track = tracks[t];
+         const particlesInRing = Math.floor(orbitCount / Math.max(tracks.length, 1));
+         for (let j = 0; j < particlesInRing; j++) {
+             const point = orbitPointAt(track.elements, (j / particlesInRing) * Math.PI * 2);
+             // Slight thickness to the line
+             const r = track.radius + (random() - 0.5) * 0.1;
+             
+             targetPos[currentIdx * 3] = r * point.x;
+             targetPos[currentIdx * 3 + 1] = r * point.y + (random() - 0.5) * 0.05;
+             targetPos[currentIdx * 3 + 2] = r * point.z;
+             bodyIdx[currentIdx] = track.parent;
+             
+             // Fade orbit lines based on angle for style
+             const shade = 0.3 + random() * 0.5;
+             setColor(currentIdx, orbitColor.clone().multiplyScalar(shade));
+             currentIdx++;
+         }
+     }
+
+     // 3. ASTEROID BELT (Between Mars and Jupiter)
+     for (let i = 0; belt && i < asteroidCount; i++) {
+         const rBase = belt.radius;
+         const rWidth = belt.width;
+         const r = rBase + (random() - 0.5) * rWidth;
+         const theta = random() * Math.PI * 2;
+         
+         targetPos[currentIdx * 3] = r * Math.cos(theta);
+         targetPos[currentIdx * 3 + 1] = (random() - 0.5) * 0.8; // Some vertical spread
+         targetPos[currentIdx * 3 + 2] = r * Math.sin(theta);
+         
+         const c = asteroidColor.clone().multiplyScalar(0.5 + random() * 0.5);
+         setColor(currentIdx, c);
+         currentIdx++;
+     }
+
+     // 4. PLANETS (Relative to their own center, moved along the orbit at render time)
+     const particlesPerPlanet = planetList.length > 0 ? Math.floor((count - currentIdx) / planetList.length) : 0;
+     
+     for (let p = 0; p < planetList.length; p++) {
+         const planet = planetList[p];
+         
+         const pColors = planet.colors.map(c => new THREE.Color(c));
+         const pRingColors = planet.ringColors ? planet.ringColors.map(c => new THREE.Color(c)) : [];
+
+         for (let k = 0; k < particlesPerPlanet; k++) {
+             if (currentIdx >= count) break;
+
+             const isRing = planet.hasRings && k > particlesPerPlanet * 0.7;
+             
+             let px, py, pz;
+             let col = new THREE.Color();
+
+             if (isRing) {
+                 const rInner = planet.radius * 0.15 * 1.4;
+                 const rOuter = planet.radius * 0.15 * 2.2;
+                 const rRing = rInner + random() * (rOuter - rInner);
+                 const thetaRing = random() * Math.PI * 2;
+                 
+                 px = rRing * Math.cos(thetaRing);
+                 pz = rRing * Math.sin(thetaRing);
+                 py = (random() - 0.5) * 0.05;
+
+                 const cIdx = Math.floor(random() * pRingColors.length);
+                 col = getSafeColor(pRingColors, cIdx);
+             } else {
+                 const pr = planet.radius * 0.15; // Scale down for solar view
+                 const theta = random() * Math.PI * 2;
+                 const phi = Math.acos(2 * random() - 1);
+                 
+                 px = pr * Math.sin(phi) * Math.cos(theta);
+                 py = pr * Math.cos(phi);
+                 pz = pr * Math.sin(phi) * Math.sin(theta);
+                 
+                 // Simplified noise for mini planets (offset per planet so they don't share a pattern)
+                 const n = noise(px + p * 7, py, pz);
+                 const cIdx = ((n + 1.5)/3) * pColors.length;
+                 col = getSafeColor(pColors, cIdx);
+             }
+
+             targetPos[currentIdx * 3] = px;
+             targetPos[currentIdx * 3 + 1] = py;
+             targetPos[currentIdx * 3 + 2] = pz;
+             bodyIdx[currentIdx] = p;
+             setColor(currentIdx, col);
+             currentIdx++;
+         }
+     }
+
+     // Fill remaining with void
+     while (currentIdx < count) {
+         targetPos[currentIdx * 3] = 0;
+         targetPos[currentIdx * 3+1] = 0;
+         targetPos[currentIdx * 3+2] = 0;
+         currentIdx++;
+     }
+
+  } else {
+     // === SINGLE PLANET MODE ===
+     const bodyColors = bodyConfig.colors.map(c => new THREE.Color(c));
+     const ringColors = bodyConfig.ringColors ? bodyConfig.ringColors.map(c => new THREE.Color(c)) : [];
+
+     const params = bodyConfig.surface ?? {};
+     const generateSurface = getSurfaceGenerator(bodyConfig.textureType);
+     const capColor = new THREE.Color(params.polarCaps?.color ?? '#ffffff');
+     const cloudColor = new THREE.Color(params.cloudLayer?.color ?? '#ffffff');
+     
+     const ringParticleCount = bodyConfig.hasRings ? Math.floor(count * 0.35) : 0;
+     const bodyParticleCount = count - ringParticleCount;
+
+     for (let i = 0; i < count; i++) {
+       const i3 = i * 3;
+       let tx, ty, tz;
+       let color = new THREE.Color();
+       const isRing = i >= bodyParticleCount;
+
+       if (isRing && bodyConfig.hasRings) {
+          // RING GENERATION
+          const inner = bodyConfig.radius * 1.3;
+          const outer = bodyConfig.radius * 2.2;
+          const r = inner + random() * (outer - inner);
+          const theta = random() * Math.PI * 2;
+          tx = r * Math.cos(theta);
+          tz = r * Math.sin(theta);
+          ty = (random() - 0.5) * 0.05;
+          
+          const normalizedR = (r - inner) / (outer - inner);
+          const ringLen = ringColors.length;
+          const cIdx = normalizedR * ringLen * 3; 
+          color = getSafeColor(ringColors, ringLen > 0 ? cIdx % ringLen : 0);
+          
+          if (normalizedR > 0.6 && normalizedR < 0.65) {
+              color.multiplyScalar(0.2); // Cassini gap
+          }
+
+       } else {
+          // BODY SPHERE
+          const r = bodyConfig.radius;
+          const theta = random() * Math.PI * 2;
+          const phi = Math.acos(2 * random() - 1);
+          tx = r * Math.sin(phi) * Math.cos(theta);
+          ty = r * Math.cos(phi);
+          tz = r * Math.sin(phi) * Math.sin(theta);
+
+          // Surface color from the registered generator for this body
+          const surface = generateSurface({ x: tx, y: ty, z: tz, radius: r, palette: bodyColors, params, random });
+          color = surface.color;
+
+          // Polar caps (never over oceans)
+          if (params.polarCaps && !surface.liquid && Math.abs(ty / r) > params.polarCaps.latitude) {
+              color = capColor.clone();
+          }
+
+          // ATMOSPHERE/CLOUDS
+          // If cloud noise is high, overlay cloud color
+          // Push radius out slightly for parallax
+          const clouds = params.cloudLayer;
+          if (clouds) {
+              const f = clouds.frequency;
+              const nCloud = noise(tx * f + 50, ty * f, tz * f + 50);
+              if (nCloud > clouds.threshold && random() < clouds.coverage) {
+                 color = cloudColor.clone();
+                 tx *= (1 + clouds.height);
+                 ty *= (1 + clouds.height);
+                 tz *= (1 + clouds.height);
+              }
+          }
+       }
+       
+       targetPos[i3] = tx;
+       targetPos[i3 + 1] = ty;
+       targetPos[i3 + 2] = tz;
+       setColor(i, color);
+     }
+  }
+
+  // --- UNIVERSAL EXPLOSION (Same for all) ---
+  for (let i = 0; i < count; i++) {
+      const i3 = i * 3;
+      const spread = 50;
+      const spreadR = spread * Math.cbrt(cloudRandom());
+      const spreadTheta = cloudRandom() * Math.PI * 2;
+      const spreadPhi = Math.acos(2 * cloudRandom() - 1);
+
+      initPos[i3] = spreadR * Math.sin(spreadPhi) * Math.cos(spreadTheta);
+      initPos[i3 + 1] = spreadR * Math.sin(spreadPhi) * Math.sin(spreadTheta);
+      initPos[i3 + 2] = spreadR * Math.cos(spreadPhi);
+      
+      rands[i3] = cloudRandom();
+      rands[i3 + 1] = cloudRandom();
+      rands[i3 + 2] = cloudRandom();
+  }
+
+  return {
+    initialPositions: initPos,
+    targetPositions: targetPos,
+    colors: cols,
+    randoms: rands,
+    bodyIndices: bodyIdx,
+    orbitTracks: tracks
+  };
+};
@@ -0,0 +1,34 @@
+import { CelestialBodyConfig } from '../types';
+import { BodyGeometry, generateBodyGeometry } from './bodyGeometry';
+
+// Worker entry: generates body geometry off the main thread and hands the buffers
+// back as transferables (moved, not copied). See services/geometryService.ts.
+
+export interface GeometryRequest {
+  id: number;
+  body: CelestialBodyConfig;
+  catalog: CelestialBodyConfig[];
+  count: number;
+  seed: number;
+}
+
+export type GeometryResponse =
+  | { id: number, geometry: BodyGeometry }
+  | { id: number, error: string };
+
+self.onmessage = (e: MessageEvent<GeometryRequest>) => {
+  const { id, body, catalog, count, seed } = e.data;
+  try {
+    const geometry = generateBodyGeometry(body, catalog, count, seed);
+    const transfer = [
+      geometry.initialPositions.buffer,
+      geometry.targetPositions.buffer,
+      geometry.colors.buffer,
+      geometry.randoms.buffer,
+      geometry.bodyIndices.buffer
+    ];
+    self.postMessage({ id, geometry } satisfies GeometryResponse, { transfer });
+  } catch (err) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : String(err) } satisfies GeometryResponse);
+  }
+};
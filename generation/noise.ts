@@ -0,0 +1,30 @@
+import * as THREE from 'three';
+
+// Simple pseudo-noise function
+// Range: roughly -1.5 to 1.5
+export const noise = (x: number, y: number, z: number) => {
+  return Math.sin(x * 12.0) * Math.cos(y * 12.0) * Math.sin(z * 12.0) +
+         Math.sin(x * 4.0) * Math.sin(y * 4.0) * Math.cos(z * 4.0) * 0.5;
+};
+
+// Map noise output to 0-1
+export const normalizeNoise = (n: number) => Math.max(0, Math.min(1, (n + 1.5) / 3));
+
+// Safe color retrieval helper
+export const getSafeColor = (colors: THREE.Color[], idx: number) => {
+    if (!colors || colors.length === 0) return new THREE.Color(1, 1, 1);
+    
+    // Handle NaN or non-finite numbers which cause array access issues
+    let safeIndex = idx;
+    if (!Number.isFinite(safeIndex)) {
+        safeIndex = 0;
+    }
+
+    safeIndex = Math.max(0, Math.min(Math.floor(safeIndex), colors.length - 1));
+    const color = colors[safeIndex];
+    
+    // Double check existence to prevent 'reading clone of undefined'
+    if (!color) return new THREE.Color(1, 1, 1);
+    
+    return color.clone();
+};
@@ -0,0 +1,150 @@
+import { CelestialBodyConfig, OrbitalElements } from '../types';
+
+// Keplerian orbits for the system view. Pure math, no three.js: positions come back
+// in scene axes (y up, ecliptic in the xz plane) scaled so the semi-major axis is 1,
+// and the caller scales each orbit to its display radius.
+
+const DEG = Math.PI / 180;
+const DAY_MS = 86400000;
+
+// 2000-01-01 12:00 TT, close enough to UTC at this scale
+const J2000_MS = Date.UTC(2000, 0, 1, 12);
+
+// Uniform array size in the particle shader; catalogs are validated against it
+export const MAX_ORBITERS = 64;
+
+// System view spacing for bodies without an explicit orbitRadius
+const INNER_ORBIT = 6;
+const OUTER_ORBIT = 44;
+const DEFAULT_MOON_ORBIT = 1.0;
+
+// Circular fallback orbits follow Kepler's third law relative to these
+const REFERENCE_ORBIT = 10; // Earth's display radius
+const REFERENCE_PERIOD = 365.256;
+const REFERENCE_MOON_PERIOD = 27.322;
+
+export interface OrbitTrack {
+  body: CelestialBodyConfig;
+  parent: number; // Index of the track this body circles, -1 for the system center
+  radius: number; // Display semi-major axis
+  elements: OrbitalElements;
+}
+
+export interface OrbitPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export const daysSinceJ2000 = (date: Date) => (date.getTime() - J2000_MS) / DAY_MS;
+
+// Newton iteration on M = E - e sin E (eccentric anomaly from mean anomaly, radians)
+export const solveKepler = (meanAnomaly: number, eccentricity: number) => {
+  const M = Math.atan2(Math.sin(meanAnomaly), Math.cos(meanAnomaly));
+  let E = eccentricity < 0.8 ? M : Math.PI;
+  for (let i = 0; i < 8; i++) {
+    const step = (E - eccentricity * Math.sin(E) - M) / (1 - eccentricity * Math.cos(E));
+    E -= step;
+    if (Math.abs(step) < 1e-9) break;
+  }
+  return E;
+};
+
+// Point on the orbit ellipse for an eccentric anomaly. Also used to draw the orbit rings.
+export const orbitPointAt = (elements: OrbitalElements, eccentricAnomaly: number): OrbitPoint => {
+  const e = elements.eccentricity;
+  const node = (elements.longitudeOfAscendingNode ?? 0) * DEG;
+  const perihelion = (elements.longitudeOfPerihelion ?? 0) * DEG - node; // Argument of perihelion
+  const inclination = elements.inclination * DEG;
+
+  // Position in the orbital plane, perihelion along +x
+  const xp = Math.cos(eccentricAnomaly) - e;
+  const yp = Math.sqrt(1 - e * e) * Math.sin(eccentricAnomaly);
+
+  const cosW = Math.cos(perihelion), sinW = Math.sin(perihelion);
+  const cosO = Math.cos(node), sinO = Math.sin(node);
+  const cosI = Math.cos(inclination), sinI = Math.sin(inclination);
+
+  // Rotate into ecliptic coordinates
+  const xe = (cosW * cosO - sinW * sinO * cosI) * xp + (-sinW * cosO - cosW * sinO * cosI) * yp;
+  const ye = (cosW * sinO + sinW * cosO * cosI) * xp + (-sinW * sinO + cosW * cosO * cosI) * yp;
+  const ze = sinW * sinI * xp + cosW * sinI * yp;
+
+  // Ecliptic north is scene +y; -z keeps orbits counter-clockwise seen from above
+  return { x: xe, y: ze, z: -ye };
+};
+
+// Position at a time given in days since J2000
+export const orbitalPosition = (elements: OrbitalElements, days: number): OrbitPoint => {
+  const meanLongitude = (elements.meanLongitude ?? 0) + (360 / elements.periodDays) * days;
+  const meanAnomaly = (meanLongitude - (elements.longitudeOfPerihelion ?? 0)) * DEG;
+  return orbitPointAt(elements, solveKepler(meanAnomaly, elements.eccentricity));
+};
+
+export const computeOrbitRadii = (bodies: CelestialBodyConfig[]) =>
+  bodies.map((body, i) => {
+    if (body.orbitRadius !== undefined) return body.orbitRadius;
+    if (bodies.length === 1) return (INNER_ORBIT + OUTER_ORBIT) / 2;
+    return INNER_ORBIT + (OUTER_ORBIT - INNER_ORBIT) * (i / (bodies.length - 1));
+  });
+
+// Asteroid belt sits in the widest gap between neighbouring orbits
+// (between Mars and Jupiter for the solar system)
+export const findAsteroidBelt = (radii: number[]) => {
+  const sorted = [...radii].sort((a, b) => a - b);
+  let best: { radius: number, width: number } | null = null;
+  let widest = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    const gap = sorted[i] - sorted[i - 1];
+    if (gap > widest) {
+      widest = gap;
+      best = { radius: (sorted[i] + sorted[i - 1]) / 2, width: Math.min(3.0, gap * 0.5) };
+    }
+  }
+  return best;
+};
+
+// Circular orbit for bodies without elements, phased so they don't all line up
+const circularElements = (radius: number, index: number, isMoon: boolean): OrbitalElements => ({
+  semiMajorAxis: radius,
+  eccentricity: 0,
+  inclination: 0,
+  periodDays: isMoon
+    ? REFERENCE_MOON_PERIOD * Math.pow(radius / DEFAULT_MOON_ORBIT, 1.5)
+    : REFERENCE_PERIOD * Math.pow(radius / REFERENCE_ORBIT, 1.5),
+  meanLongitude: ((index * 2.5) % (Math.PI * 2)) / DEG
+});
+
+// One track per orbiting body, in catalog order. Moons whose parent is missing or is
+// the system body orbit the center like planets.
+export const createOrbitTracks = (bodies: CelestialBodyConfig[]): OrbitTrack[] => {
+  const parents = bodies.map(body => {
+    const name = body.orbit?.parent;
+    return name ? bodies.findIndex(b => b.name === name && !b.orbit?.parent) : -1;
+  });
+
+  const topLevel = bodies.filter((_, i) => parents[i] < 0);
+  const topRadii = computeOrbitRadii(topLevel);
+
+  return bodies.map((body, i) => {
+    const parent = parents[i];
+    const radius = parent < 0 ? topRadii[topLevel.indexOf(body)] : body.orbitRadius ?? DEFAULT_MOON_ORBIT;
+    return { body, parent, radius, elements: body.orbit ?? circularElements(radius, i, parent >= 0) };
+  });
+};
+
+// Writes each body's display position (xyz per track) for the given time. Parents are
+// resolved first so moons can ride along with them.
+export const computeOrbitOffsets = (tracks: OrbitTrack[], days: number, out: Float32Array) => {
+  for (const pass of [false, true]) {
+    tracks.forEach((track, i) => {
+      if ((track.parent >= 0) !== pass) return;
+      const p = orbitalPosition(track.elements, days);
+      const base = track.parent * 3;
+      out[i * 3] = p.x * track.radius + (pass ? out[base] : 0);
+      out[i * 3 + 1] = p.y * track.radius + (pass ? out[base + 1] : 0);
+      out[i * 3 + 2] = p.z * track.radius + (pass ? out[base + 2] : 0);
+    });
+  }
+  return out;
+};
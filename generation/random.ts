@@ -0,0 +1,38 @@
+// Seeded randomness for generation. Same seed, same particles: on every machine,
+// in the browser or in Node, so screenshots and bug reports can be reproduced.
+
+// Returns a float in [0, 1), like Math.random
+export type Random = () => number;
+
+export const DEFAULT_SEED = 1;
+
+// mulberry32: tiny, fast and good enough for visuals
+export const createRandom = (seed: number): Random => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6D2B79F5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// FNV-1a over the parts, so each body (or purpose) gets its own independent stream
+export const hashSeed = (...parts: (string | number)[]) => {
+  let hash = 0x811c9dc5;
+  const text = parts.join(':');
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// `?seed=42` uses the number, any other text is hashed, `random` picks a fresh one
+export const parseSeed = (value: string | null) => {
+  if (!value) return DEFAULT_SEED;
+  if (value === 'random') return Math.floor(Math.random() * 4294967296);
+  const n = Number(value);
+  return Number.isInteger(n) ? n >>> 0 : hashSeed(value);
+};
@@ -0,0 +1,115 @@
+import * as THREE from 'three';
+import { BiomeParams, SurfaceGeneratorType, SurfaceParams } from '../types';
+import { getSafeColor, noise, normalizeNoise } from './noise';
+import { Random } from './random';
+
+// Registry of surface generators, keyed by CelestialBodyConfig.textureType.
+// A generator colors one point on a body's sphere; layers shared by every
+// generator (polar caps, clouds) are applied afterwards in bodyGeometry.
+
+export interface SurfaceSample {
+  x: number; // Point on the sphere surface
+  y: number;
+  z: number;
+  radius: number;
+  palette: THREE.Color[];
+  params: SurfaceParams;
+  random: Random; // Use instead of Math.random so generation stays reproducible
+}
+
+export interface SurfaceResult {
+  color: THREE.Color;
+  liquid?: boolean; // Oceans etc. Polar caps are not drawn over liquid.
+}
+
+export type SurfaceGenerator = (sample: SurfaceSample) => SurfaceResult;
+
+const DEFAULT_BIOMES: BiomeParams = {
+  seaLevel: 0.05,
+  shallowDepth: 0.15,
+  midDepth: 0.45,
+  mountainDetail: 0.4,
+  mountainHeight: 0.6,
+  wetMoisture: 0.1,
+  forestMoisture: 0.5,
+  desertMoisture: -0.3
+};
+
+// Palette-indexed noise; the generic planet/moon look
+const noiseSurface: SurfaceGenerator = ({ x, y, z, palette, params }) => {
+  const scale = params.noiseScale ?? 1;
+  const n = noise(x * scale, y * scale, z * scale);
+  return { color: getSafeColor(palette, normalizeNoise(n) * palette.length) };
+};
+
+// Latitude bands, optionally wavering around the equator (gas giants)
+const bandedSurface: SurfaceGenerator = ({ x, y, z, radius, palette, params }) => {
+  const nY = (y / radius + 1) / 2; // 0 to 1 (South to North)
+  const nX = (Math.atan2(z, x) / (2 * Math.PI)) + 0.5; // 0 to 1
+
+  const bandFreq = params.bandFrequency ?? 15;
+  const turbulence = Math.sin(nX * (params.turbulenceFrequency ?? 10)) * (params.turbulence ?? 0);
+  const bandVal = Math.cos((nY + turbulence) * bandFreq * Math.PI);
+  return { color: getSafeColor(palette, ((bandVal + 1) / 2) * palette.length) };
+};
+
+// Uniform base color with slight brightness jitter (ice giants)
+const solidSurface: SurfaceGenerator = ({ palette, params, random }) => {
+  const color = getSafeColor(palette, 0);
+  const variation = params.variation ?? 0.08;
+  return { color: color.multiplyScalar(1 - variation + random() * variation * 2) };
+};
+
+// Continents, oceans and biomes (Earth-like worlds)
+const terrestrialSurface: SurfaceGenerator = ({ x, y, z, palette, params }) => {
+  const biomes = { ...DEFAULT_BIOMES, ...params.biomes };
+  const scale = params.noiseScale ?? 1;
+  const detailScale = params.detailScale ?? 5;
+  const moistureScale = params.moistureScale ?? 2;
+
+  // 1. Continent Shape (Low Frequency)
+  const nCont = noise(x * scale, y * scale, z * scale); 
+
+  // 2. Terrain Detail (High Frequency)
+  const nDet = noise(x * detailScale, y * detailScale, z * detailScale);
+
+  // 3. Moisture/Climate (Determines Forest vs Desert)
+  const nMoist = noise(x * moistureScale + 100, y * moistureScale + 100, z * moistureScale + 100);
+
+  // Combine for Terrain Height
+  const h = nCont + nDet * 0.2; 
+
+  // OCEAN LOGIC
+  if (h < biomes.seaLevel) {
+    const depth = h - biomes.seaLevel; // Negative value
+    // Shallow water near coasts
+    if (depth > -biomes.shallowDepth) return { color: getSafeColor(palette, 2), liquid: true }; // Shallow (Teal)
+    if (depth > -biomes.midDepth) return { color: getSafeColor(palette, 1), liquid: true }; // Mid Ocean
+    return { color: getSafeColor(palette, 0), liquid: true }; // Deep Ocean
+  }
+
+  // LAND LOGIC
+  // High altitude (mountains)
+  if (nDet > biomes.mountainDetail || h > biomes.mountainHeight) {
+    return { color: getSafeColor(palette, 5) }; // Mountain/Brown
+  }
+
+  // Vegetation based on moisture
+  if (nMoist > biomes.wetMoisture) {
+    return { color: getSafeColor(palette, nMoist > biomes.forestMoisture ? 3 : 4) }; // Deep Forest / Grassland
+  }
+
+  // Arid / Savanna
+  if (nMoist < biomes.desertMoisture) return { color: getSafeColor(palette, 5) }; // Desert
+  return { color: getSafeColor(palette, 4).lerp(getSafeColor(palette, 5), 0.5) }; // Mix
+};
+
+export const SURFACE_GENERATORS: Record<SurfaceGeneratorType, SurfaceGenerator> = {
+  noise: noiseSurface,
+  banded: bandedSurface,
+  solid: solidSurface,
+  terrestrial: terrestrialSurface
+};
+
+export const getSurfaceGenerator = (type: SurfaceGeneratorType): SurfaceGenerator =>
+  SURFACE_GENERATORS[type] ?? noiseSurface;
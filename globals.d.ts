@@ -0,0 +1,7 @@
+// Build-time constants injected by vite.config.ts
+
+// Version of the installed @mediapipe/tasks-vision package
+declare const __MEDIAPIPE_VERSION__: string;
+
+// Size and SHA-256 (hex) of each file in the package's wasm/ directory
+declare const __MEDIAPIPE_FILES__: Record<string, { size: number, sha256: string }>;
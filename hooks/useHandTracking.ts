@@ -1,120 +1,160 @@
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { FilesetResolver, HandLandmarker, HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import React, { useEffect, useRef, useState } from 'react';
+import { HandLandmarker, HandLandmarkerResult } from '@mediapipe/tasks-vision';
+import { GestureEvent, HandFrame, MediaPipeAssetSourceName, RecordedHandResult } from '../types';
+import { createHandPipelineState, MAX_HANDS, updateHandPipeline } from '../services/handPipeline';
+import { LandmarkReplay } from '../services/landmarkReplay';
+import { createHandLandmarker } from '../services/mediapipeAssets';
 
 interface UseHandTrackingProps {
   videoRef: React.RefObject<HTMLVideoElement | null>;
-  onHandUpdate: (isOpen: boolean, score: number, position: { x: number, y: number }) => void;
+  onGestureEvent: (event: GestureEvent) => void; // Discrete events only; continuous state is in handFrame
+  assetSources: MediaPipeAssetSourceName[]; // Tried in order until one loads
+  detectionIntervalMs?: number; // Minimum time between detections, 0 = every new video frame
+  maxRateHz?: number; // Upper bound on detections per second
+  onInference?: (ms: number) => void; // Time spent in each detection, for the performance governor
+  onDetection?: (result: HandLandmarkerResult, timestamp: number) => void; // Raw detector output, for the landmark recorder
+  replay?: LandmarkReplay | null; // Replaces the camera while set
 }
 
-export const useHandTracking = ({ videoRef, onHandUpdate }: UseHandTrackingProps) => {
+export const useHandTracking = ({ videoRef, onGestureEvent, assetSources, detectionIntervalMs = 0, maxRateHz = 30, onInference, onDetection, replay = null }: UseHandTrackingProps) => {
   const [isReady, setIsReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [assetSource, setAssetSource] = useState<MediaPipeAssetSourceName | null>(null);
   const landmarkerRef = useRef<HandLandmarker | null>(null);
-  const requestRef = useRef<number | null>(null);
+  const lastDetectionRef = useRef(0);
+  const frameRef = useRef<HandFrame | null>(null);
+  const pipelineRef = useRef(createHandPipelineState());
+  const pipelineClockRef = useRef(0); // Last timestamp given to the pipeline
+
+  // Latest callbacks and limits, read by the long-running loop
+  const onGestureEventRef = useRef(onGestureEvent);
+  const onInferenceRef = useRef(onInference);
+  const onDetectionRef = useRef(onDetection);
+  const detectionIntervalRef = useRef(detectionIntervalMs);
+  const maxRateRef = useRef(maxRateHz);
+  onGestureEventRef.current = onGestureEvent;
+  onInferenceRef.current = onInference;
+  onDetectionRef.current = onDetection;
+  detectionIntervalRef.current = detectionIntervalMs;
+  maxRateRef.current = maxRateHz;
 
   // Initialize MediaPipe
   useEffect(() => {
+    let cancelled = false;
+
     const initLandmarker = async () => {
       try {
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm"
-        );
-        const landmarker = await HandLandmarker.createFromOptions(vision, {
+        const { landmarker, source } = await createHandLandmarker({
           baseOptions: {
-            modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
             delegate: "GPU"
           },
           runningMode: "VIDEO",
-          numHands: 1
-        });
+          numHands: MAX_HANDS
+        }, assetSources);
+        if (cancelled) {
+          landmarker.close();
+          return;
+        }
+        setAssetSource(source);
         landmarkerRef.current = landmarker;
         setIsReady(true);
       } catch (err) {
         console.error("Error loading hand landmarker:", err);
-        setError("Failed to load hand tracking. Please ensure camera permissions are granted.");
+        if (cancelled) return;
+        // Camera problems surface through the Webcam component; this is only about the assets
+        setError(`Hand tracking unavailable: could not load model files (tried ${assetSources.join(', ')}).`);
       }
     };
 
     initLandmarker();
     return () => {
+      cancelled = true;
       if (landmarkerRef.current) {
         landmarkerRef.current.close();
+        landmarkerRef.current = null;
       }
     };
-  }, []);
-
-  const predict = useCallback(() => {
-    if (!landmarkerRef.current || !videoRef.current || !videoRef.current.videoWidth) {
-      requestRef.current = requestAnimationFrame(predict);
-      return;
-    }
-
-    const startTimeMs = performance.now();
-    const result: HandLandmarkerResult = landmarkerRef.current.detectForVideo(videoRef.current, startTimeMs);
-
-    if (result.landmarks && result.landmarks.length > 0) {
-      const landmarks = result.landmarks[0];
-      
-      const wrist = landmarks[0];
-      const indexMcp = landmarks[5];
-      const middleTip = landmarks[12];
-      const thumbTip = landmarks[4];
-      const pinkyTip = landmarks[20];
-
-      // Hand scale reference (depth approximation)
-      const scale = Math.sqrt(
-        Math.pow(indexMcp.x - wrist.x, 2) + 
-        Math.pow(indexMcp.y - wrist.y, 2)
-      );
-
-      // Open/Close detection logic
-      const extension = Math.sqrt(
-        Math.pow(middleTip.x - wrist.x, 2) + 
-        Math.pow(middleTip.y - wrist.y, 2)
-      );
-      
-      const spread = Math.sqrt(
-          Math.pow(thumbTip.x - pinkyTip.x, 2) +
-          Math.pow(thumbTip.y - pinkyTip.y, 2)
-      );
-
-      const extensionRatio = extension / scale;
-      const spreadRatio = spread / scale;
-
-      const isOpen = extensionRatio > 1.3 && spreadRatio > 0.8;
-      const opennessScore = Math.min(Math.max((extensionRatio - 0.8) / 1.5, 0), 1);
-
-      // --- POSITION CALCULATION ---
-      // Get the centroid of the hand (approximate center)
-      // Landmarks are normalized [0, 1].
-      // We want x=0 to be center, -1 left, 1 right for rotation math later.
-      // But MediaPipe x=0 is left, x=1 is right.
-      // NOTE: Video is usually mirrored by CSS, but landmarks are relative to source.
-      // If user moves hand Right in physical space -> Camera sees movement Left -> Landmarks x decreases.
-      
-      // We calculate raw center first (0 to 1)
-      const rawX = (wrist.x + indexMcp.x + pinkyTip.x) / 3;
-      const rawY = (wrist.y + indexMcp.y + pinkyTip.y) / 3;
-
-      onHandUpdate(isOpen, opennessScore, { x: rawX, y: rawY });
-    } else {
-        // Default idle state
-        onHandUpdate(true, 1, { x: 0.5, y: 0.5 });
-    }
-
-    requestRef.current = requestAnimationFrame(predict);
-  }, [onHandUpdate, videoRef]);
-
-  // Start prediction loop when ready
+  }, [assetSources]);
+
+  // Runs one detector result (live or replayed) through the pipeline: discrete events
+  // go to the callback, the continuous state is published to handFrame
+  const processResult = (result: RecordedHandResult, timestamp: number) => {
+    const { state, events, frame } = updateHandPipeline(pipelineRef.current, result, timestamp);
+    pipelineRef.current = state;
+    pipelineClockRef.current = timestamp;
+    frameRef.current = frame;
+    events.forEach(event => onGestureEventRef.current(event));
+  };
+
+  // Inference loop, keyed to new video frames (requestVideoFrameCallback, or animation
+  // frames that skip repeats of the same video frame) and capped at the max rate
   useEffect(() => {
-    if (isReady && videoRef.current) {
-      requestRef.current = requestAnimationFrame(predict);
-    }
-    return () => {
-      if (requestRef.current) cancelAnimationFrame(requestRef.current);
+    if (!isReady || replay) return;
+    let cancel = () => {};
+    let lastVideoTime = -1;
+    // A replay faster than real time leaves the pipeline clock ahead of the wall clock;
+    // shift camera timestamps so the pipeline never sees time run backwards
+    const clockShift = Math.max(0, pipelineClockRef.current - performance.now());
+
+    const start = () => {
+      const video = videoRef.current;
+      if (!video) {
+        const id = requestAnimationFrame(start);
+        cancel = () => cancelAnimationFrame(id);
+        return;
+      }
+      const onVideoFrames = typeof video.requestVideoFrameCallback === 'function';
+
+      const tick = () => {
+        const now = performance.now();
+        const minInterval = Math.max(detectionIntervalRef.current, 1000 / maxRateRef.current);
+        const isNewFrame = onVideoFrames || video.currentTime !== lastVideoTime;
+
+        if (landmarkerRef.current && video.videoWidth && isNewFrame && now - lastDetectionRef.current >= minInterval) {
+          lastDetectionRef.current = now;
+          lastVideoTime = video.currentTime;
+          const result = landmarkerRef.current.detectForVideo(video, now);
+          onInferenceRef.current?.(performance.now() - now);
+          onDetectionRef.current?.(result, now);
+          processResult(result, now + clockShift);
+        }
+        schedule();
+      };
+
+      const schedule = () => {
+        if (onVideoFrames) {
+          const id = video.requestVideoFrameCallback(tick);
+          cancel = () => video.cancelVideoFrameCallback(id);
+        } else {
+          const id = requestAnimationFrame(tick);
+          cancel = () => cancelAnimationFrame(id);
+        }
+      };
+      schedule();
+    };
+
+    start();
+    return () => cancel();
+  }, [isReady, videoRef, replay]);
+
+  // Replay loop: each animation frame, the recorded results the playhead passed, on the
+  // recording's own timing. Needs neither the camera nor the model. The pipeline carries
+  // over from the camera, so hands present before the switch are reported lost as usual.
+  useEffect(() => {
+    if (!replay) return;
+    let id = 0;
+    // Same shift as the camera loop, for a replay started after another one ran fast
+    const clockShift = Math.max(0, pipelineClockRef.current - performance.now());
+
+    const tick = () => {
+      replay.read(performance.now() + clockShift).forEach(frame => processResult(frame.result, frame.t));
+      id = requestAnimationFrame(tick);
     };
-  }, [isReady, predict, videoRef]);
 
-  return { isReady, error };
+    id = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(id);
+  }, [replay]);
+
+  return { isReady, error, assetSource, handFrame: frameRef as React.RefObject<HandFrame | null> };
 };
@@ -0,0 +1,179 @@
+import React, { useEffect, useRef } from 'react';
+import { InputAction, InputMode } from '../types';
+import { SceneTarget, createSceneTarget } from '../services/sceneInput';
+
+// Mouse, touch and keyboard as an input source, for when there is no camera or no
+// hand. Produces the same SceneTarget as the hands (read each frame, no re-renders)
+// and the same discrete actions:
+//   mouse    wheel down/up contracts/expands, drag steers
+//   touch    pinch contracts, spread expands, one-finger drag steers
+//   keyboard space toggles expand/contract, arrows steer, [ and ] step through the
+//            tour, 1-9 and 0 pick a body, c starts or stops a video capture
+
+const WHEEL_SENSITIVITY = 0.0015; // Expansion per wheel delta pixel
+const DRAG_RANGE = 0.25; // Fraction of the element's size for full steering
+const KEY_STEER = 0.6; // Arrow keys steer at this strength while held
+// Hysteresis for the expand/contract actions, so hovering at a threshold fires once
+const CONTRACT_BELOW = 0.3;
+const EXPAND_ABOVE = 0.7;
+
+interface UseManualInputProps {
+  elementRef: React.RefObject<HTMLElement | null>; // Pointer and wheel input are read over this element
+  onAction: (action: InputAction) => void;
+  onActivity: (mode: InputMode) => void; // Called on every input; cheap to repeat
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Keyboard shortcuts shouldn't fire while typing in a form field
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement;
+
+export const useManualInput = ({ elementRef, onAction, onActivity }: UseManualInputProps) => {
+  const targetRef = useRef<SceneTarget>(createSceneTarget());
+
+  // Latest callbacks, read by the listeners
+  const onActionRef = useRef(onAction);
+  const onActivityRef = useRef(onActivity);
+  onActionRef.current = onAction;
+  onActivityRef.current = onActivity;
+
+  useEffect(() => {
+    const element = elementRef.current;
+    if (!element) return;
+
+    const target = targetRef.current;
+    let contracted = false;
+    const pointers = new Map<number, { x: number, y: number }>();
+    let drag: { x: number, y: number } | null = null;
+    let pinch: { distance: number, expansion: number } | null = null;
+    const heldArrows = new Set<string>();
+
+    const setExpansion = (expansion: number) => {
+      target.expansion = clamp(expansion, 0, 1);
+      if (!contracted && target.expansion < CONTRACT_BELOW) {
+        contracted = true;
+        onActionRef.current({ type: 'contract' });
+      } else if (contracted && target.expansion > EXPAND_ABOVE) {
+        contracted = false;
+        onActionRef.current({ type: 'expand' });
+      }
+    };
+
+    const pinchDistance = () => {
+      const [a, b] = Array.from(pointers.values());
+      return Math.hypot(a.x - b.x, a.y - b.y);
+    };
+
+    // --- MOUSE / TOUCH ---
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      onActivityRef.current('mouse');
+      setExpansion(target.expansion - e.deltaY * WHEEL_SENSITIVITY);
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (isEditable(e.target)) return;
+      onActivityRef.current(e.pointerType === 'mouse' ? 'mouse' : 'touch');
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (pointers.size === 1) {
+        drag = { x: e.clientX, y: e.clientY };
+      } else if (pointers.size === 2) {
+        // Second finger: steering stops and the pinch takes over
+        drag = null;
+        target.steer = { x: 0, y: 0 };
+        pinch = { distance: pinchDistance(), expansion: target.expansion };
+      }
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!pointers.has(e.pointerId)) return;
+      pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+      if (pinch && pointers.size === 2 && pinch.distance > 0) {
+        setExpansion(pinch.expansion + (pinchDistance() / pinch.distance - 1));
+      } else if (drag) {
+        const { width, height } = element.getBoundingClientRect();
+        target.steer = {
+          x: clamp((e.clientX - drag.x) / (width * DRAG_RANGE), -1, 1),
+          y: clamp((e.clientY - drag.y) / (height * DRAG_RANGE), -1, 1)
+        };
+      }
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      pointers.delete(e.pointerId);
+      if (pointers.size < 2) pinch = null;
+      if (pointers.size === 0) {
+        drag = null;
+        target.steer = { x: 0, y: 0 };
+      }
+    };
+
+    // --- KEYBOARD ---
+
+    const updateKeySteer = () => {
+      const axis = (negative: string, positive: string) =>
+        (heldArrows.has(positive) ? KEY_STEER : 0) - (heldArrows.has(negative) ? KEY_STEER : 0);
+      target.steer = { x: axis('ArrowLeft', 'ArrowRight'), y: axis('ArrowUp', 'ArrowDown') };
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isEditable(e.target) || e.metaKey || e.ctrlKey || e.altKey) return;
+
+      if (e.key === ' ') {
+        e.preventDefault();
+        if (e.repeat) return;
+        onActivityRef.current('keyboard');
+        setExpansion(contracted ? 1 : 0);
+      } else if (e.key.startsWith('Arrow')) {
+        e.preventDefault();
+        onActivityRef.current('keyboard');
+        heldArrows.add(e.key);
+        updateKeySteer();
+      } else if ((e.key === '[' || e.key === ']') && !e.repeat) {
+        onActivityRef.current('keyboard');
+        onActionRef.current({ type: e.key === ']' ? 'next' : 'previous' });
+      } else if (e.key === 'c' && !e.repeat) {
+        // Not activity: capturing shouldn't stop the tour or take over from the hands
+        onActionRef.current({ type: 'capture' });
+      } else if (/^[0-9]$/.test(e.key) && !e.repeat) {
+        onActivityRef.current('keyboard');
+        // 1 is the first body, 0 the tenth
+        onActionRef.current({ type: 'select-body', index: (Number(e.key) + 9) % 10 });
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (heldArrows.delete(e.key)) updateKeySteer();
+    };
+
+    // Keys held while the window loses focus never get their keyup
+    const handleBlur = () => {
+      heldArrows.clear();
+      target.steer = { x: 0, y: 0 };
+    };
+
+    element.addEventListener('wheel', handleWheel, { passive: false });
+    element.addEventListener('pointerdown', handlePointerDown);
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      element.removeEventListener('wheel', handleWheel);
+      element.removeEventListener('pointerdown', handlePointerDown);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [elementRef]);
+
+  return { target: targetRef as React.RefObject<SceneTarget> };
+};
@@ -0,0 +1,84 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CaptureState } from '../types';
+import { CaptureOverlay, CaptureTarget, SceneRecorder, downloadBlob, takeSnapshot } from '../services/sceneCapture';
+import { audioService } from '../services/audioService';
+import { APP_CONFIG } from '../config';
+
+const COUNTDOWN_SECONDS = 3; // Time to strike a pose after asking for a video
+
+interface UseSceneCaptureProps {
+  target: React.RefObject<CaptureTarget | null>; // Set by CaptureProbe inside the Canvas
+  overlay: React.RefObject<CaptureOverlay>; // Current phrase and title, read per frame
+  onError: (err: unknown) => void;
+}
+
+// Video capture with a countdown, and stills. Finished captures download straight away.
+export const useSceneCapture = ({ target, overlay, onError }: UseSceneCaptureProps) => {
+  const [state, setState] = useState<CaptureState>('idle');
+  const [countdown, setCountdown] = useState(0);
+  const recorder = useRef<SceneRecorder | null>(null);
+
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const startRecording = () => {
+    if (!target.current) {
+      setState('idle');
+      return;
+    }
+    try {
+      const next = new SceneRecorder(target.current, {
+        overlay: APP_CONFIG.capture.overlay ? () => overlay.current : null,
+        audio: APP_CONFIG.capture.audio ? audioService.getCaptureStream() : null
+      });
+      recorder.current = next;
+      setState('recording');
+      // Stopped by the user or by the time limit
+      next.finished
+        .then(blob => downloadBlob(blob, 'webm'))
+        .catch(err => onErrorRef.current(err))
+        .finally(() => {
+          if (recorder.current === next) recorder.current = null;
+          setState('idle');
+        });
+    } catch (err) {
+      setState('idle');
+      onErrorRef.current(err);
+    }
+  };
+
+  // Tick down once a second, then start
+  useEffect(() => {
+    if (state !== 'countdown') return;
+    if (countdown <= 0) {
+      startRecording();
+      return;
+    }
+    const id = window.setTimeout(() => setCountdown(c => c - 1), 1000);
+    return () => window.clearTimeout(id);
+  }, [state, countdown]);
+
+  // Stop an unfinished recording when the app goes away
+  useEffect(() => () => recorder.current?.stop(), []);
+
+  // Idle starts the countdown, a countdown is cancelled, a recording stops
+  const toggleRecording = () => {
+    if (state === 'idle') {
+      setCountdown(COUNTDOWN_SECONDS);
+      setState('countdown');
+    } else if (state === 'countdown') {
+      setState('idle');
+    } else {
+      recorder.current?.stop();
+    }
+  };
+
+  const snapshot = () => {
+    if (!target.current) return;
+    takeSnapshot(target.current, overlay.current, APP_CONFIG.capture.snapshotScale)
+      .then(blob => downloadBlob(blob, 'png'))
+      .catch(err => onErrorRef.current(err));
+  };
+
+  return { state, countdown, toggleRecording, snapshot };
+};
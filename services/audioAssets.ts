@@ -0,0 +1,153 @@
+import { AudioAssetName, AudioAssetSourceName, AudioAssetStatus, AudioLoadProgress } from '../types';
+import { AUDIO_ASSETS } from './audioSources';
+import { isRealAsset } from './mediapipeAssets';
+
+// Music and sound effects, decoded into AudioBuffers up front so they play instantly
+// and can be routed through Web Audio. Each sound tries the bundled copy under
+// /audio, then the original mixkit.co file, and keeps its own state: a sound
+// that can't be loaded is retried a few times and otherwise synthesized, without
+// affecting the others.
+
+const ASSET_NAMES = Object.keys(AUDIO_ASSETS) as AudioAssetName[];
+
+const MAX_ATTEMPTS = 3; // Passes over all sources before settling on synthesis
+const RETRY_DELAY_MS = 2000; // Doubles after each failed pass
+
+type ProgressListener = (progress: AudioLoadProgress) => void;
+
+// Reads a response body, reporting bytes as they arrive
+const readBody = async (response: Response, onBytes: (received: number) => void) => {
+  if (!response.body) return response.arrayBuffer();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    onBytes(received);
+  }
+
+  const data = new Uint8Array(received);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return data.buffer;
+};
+
+export class AudioAssetLoader {
+  private buffers = new Map<AudioAssetName, AudioBuffer>();
+  private statuses: Record<AudioAssetName, AudioAssetStatus>;
+  private retryTimers = new Map<AudioAssetName, number>();
+  private listeners = new Set<ProgressListener>();
+
+  constructor(private ctx: BaseAudioContext | null, private sources: AudioAssetSourceName[]) {
+    this.statuses = Object.fromEntries(ASSET_NAMES.map(name => [name, {
+      name,
+      // Nothing to decode with: synthesize (or stay silent) from the start
+      state: ctx && sources.length > 0 ? 'loading' : 'synth',
+      source: null,
+      attempts: 0,
+      receivedBytes: 0,
+      totalBytes: null
+    }])) as Record<AudioAssetName, AudioAssetStatus>;
+  }
+
+  // Starts loading every sound that isn't loaded or loading yet
+  load() {
+    ASSET_NAMES.forEach(name => {
+      if (this.statuses[name].attempts === 0 && this.statuses[name].state === 'loading') this.loadAsset(name);
+    });
+  }
+
+  // Gives sounds that fell back to synthesis (or are waiting for a retry) a fresh start
+  retry(name?: AudioAssetName) {
+    if (!this.ctx || this.sources.length === 0) return;
+    (name ? [name] : ASSET_NAMES).forEach(asset => {
+      const { state } = this.statuses[asset];
+      if (state !== 'failed' && state !== 'synth') return;
+      window.clearTimeout(this.retryTimers.get(asset));
+      this.retryTimers.delete(asset);
+      this.update(asset, { attempts: 0 });
+      this.loadAsset(asset);
+    });
+  }
+
+  getBuffer(name: AudioAssetName): AudioBuffer | null {
+    return this.buffers.get(name) ?? null;
+  }
+
+  getStatus(name: AudioAssetName): AudioAssetStatus {
+    return this.statuses[name];
+  }
+
+  getProgress(): AudioLoadProgress {
+    const assets = ASSET_NAMES.map(name => this.statuses[name]);
+    // Settled sounds count in full, downloads by bytes when their size is known
+    const parts = assets.map(({ state, receivedBytes, totalBytes }) =>
+      state === 'ready' || state === 'synth' ? 1 : totalBytes ? Math.min(receivedBytes / totalBytes, 1) : 0
+    );
+    return {
+      fraction: parts.reduce((sum, part) => sum + part, 0) / assets.length,
+      done: assets.every(a => a.state === 'ready' || a.state === 'synth'),
+      assets
+    };
+  }
+
+  subscribe(listener: ProgressListener) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private async loadAsset(name: AudioAssetName) {
+    const attempt = this.statuses[name].attempts + 1;
+    this.update(name, { state: 'loading', attempts: attempt, receivedBytes: 0, totalBytes: null, error: undefined });
+
+    const failures: string[] = [];
+    for (const source of this.sources) {
+      try {
+        const buffer = await this.fetchBuffer(name, AUDIO_ASSETS[name][source]);
+        this.buffers.set(name, buffer);
+        this.update(name, { state: 'ready', source });
+        return;
+      } catch (err) {
+        failures.push(`${source}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    const error = failures.join('; ');
+    if (attempt >= MAX_ATTEMPTS) {
+      console.warn(`Sound '${name}' could not be loaded, using synthesis.`, error);
+      this.update(name, { state: 'synth', error });
+      return;
+    }
+
+    const delay = RETRY_DELAY_MS * Math.pow(2, attempt - 1);
+    console.warn(`Sound '${name}' failed to load, retrying in ${delay / 1000}s.`, error);
+    this.update(name, { state: 'failed', error });
+    this.retryTimers.set(name, window.setTimeout(() => {
+      this.retryTimers.delete(name);
+      this.loadAsset(name);
+    }, delay));
+  }
+
+  private async fetchBuffer(name: AudioAssetName, url: string) {
+    const response = await fetch(url);
+    if (!isRealAsset(response)) throw new Error(`not found at ${url}`);
+
+    const length = Number(response.headers.get('content-length'));
+    this.update(name, { receivedBytes: 0, totalBytes: length > 0 ? length : null });
+    const data = await readBody(response, receivedBytes => this.update(name, { receivedBytes }));
+    return this.ctx!.decodeAudioData(data);
+  }
+
+  private update(name: AudioAssetName, changes: Partial<AudioAssetStatus>) {
+    this.statuses[name] = { ...this.statuses[name], ...changes };
+    const progress = this.getProgress();
+    this.listeners.forEach(listener => listener(progress));
+  }
+}
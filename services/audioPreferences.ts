@@ -0,0 +1,95 @@
+import { AudioChannel, AudioMixerSettings, NarrationSettings } from '../types';
+import { KeyValueStorage } from './phrases/phraseStore';
+
+// Mixer levels, mute and narration choices, persisted in localStorage so a kiosk keeps
+// its setup across reloads
+
+const STORAGE_KEY = 'nebula-hand.audio.v1';
+const NARRATION_STORAGE_KEY = 'nebula-hand.narration.v1';
+
+export const AUDIO_CHANNELS: AudioChannel[] = ['master', 'music', 'drone', 'sfx'];
+
+export const DEFAULT_MIXER_SETTINGS: AudioMixerSettings = {
+  volumes: { master: 0.8, music: 0.7, drone: 0.8, sfx: 0.8 },
+  muted: false
+};
+
+export const DEFAULT_NARRATION_SETTINGS: NarrationSettings = {
+  enabled: false,
+  bodyInfo: true,
+  lang: null,
+  voiceURI: null,
+  rate: 0.9 // A touch slower suits the mood
+};
+
+export const MIN_NARRATION_RATE = 0.5;
+export const MAX_NARRATION_RATE = 2;
+
+const getDefaultStorage = (): KeyValueStorage | null => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    // Access can throw in sandboxed iframes / privacy modes
+    return null;
+  }
+};
+
+const clampVolume = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, 0), 1) : fallback;
+
+export const loadMixerSettings = (storage: KeyValueStorage | null = getDefaultStorage()): AudioMixerSettings => {
+  const defaults = DEFAULT_MIXER_SETTINGS;
+  if (!storage) return { ...defaults, volumes: { ...defaults.volumes } };
+
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    const parsed = (raw ? JSON.parse(raw) : {}) as Partial<AudioMixerSettings>;
+    const volumes = { ...defaults.volumes };
+    AUDIO_CHANNELS.forEach(channel => {
+      volumes[channel] = clampVolume(parsed.volumes?.[channel], defaults.volumes[channel]);
+    });
+    return { volumes, muted: parsed.muted === true };
+  } catch (e) {
+    console.warn("Ignoring corrupt audio settings:", e);
+    return { ...defaults, volumes: { ...defaults.volumes } };
+  }
+};
+
+export const saveMixerSettings = (settings: AudioMixerSettings, storage: KeyValueStorage | null = getDefaultStorage()) => {
+  if (!storage) return;
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not persist audio settings:", e);
+  }
+};
+
+export const loadNarrationSettings = (storage: KeyValueStorage | null = getDefaultStorage()): NarrationSettings => {
+  const defaults = DEFAULT_NARRATION_SETTINGS;
+  if (!storage) return { ...defaults };
+
+  try {
+    const raw = storage.getItem(NARRATION_STORAGE_KEY);
+    const parsed = (raw ? JSON.parse(raw) : {}) as Partial<NarrationSettings>;
+    const rate = typeof parsed.rate === 'number' && Number.isFinite(parsed.rate) ? parsed.rate : defaults.rate;
+    return {
+      enabled: typeof parsed.enabled === 'boolean' ? parsed.enabled : defaults.enabled,
+      bodyInfo: typeof parsed.bodyInfo === 'boolean' ? parsed.bodyInfo : defaults.bodyInfo,
+      lang: typeof parsed.lang === 'string' ? parsed.lang : null,
+      voiceURI: typeof parsed.voiceURI === 'string' ? parsed.voiceURI : null,
+      rate: Math.min(Math.max(rate, MIN_NARRATION_RATE), MAX_NARRATION_RATE)
+    };
+  } catch (e) {
+    console.warn("Ignoring corrupt narration settings:", e);
+    return { ...defaults };
+  }
+};
+
+export const saveNarrationSettings = (settings: NarrationSettings, storage: KeyValueStorage | null = getDefaultStorage()) => {
+  if (!storage) return;
+  try {
+    storage.setItem(NARRATION_STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not persist narration settings:", e);
+  }
+};
@@ -1,213 +1,292 @@
-
-// Audio Service using HTML5 Audio with Web Audio API Fallback
+import { AudioAssetName, AudioChannel, AudioLoadProgress, AudioMixerSettings, AudioModulation, SoundPalette } from '../types';
+import { APP_CONFIG } from '../config';
+import { AudioAssetLoader } from './audioAssets';
+import { AUDIO_CHANNELS, loadMixerSettings, saveMixerSettings } from './audioPreferences';
+import { GenerativeAudio } from './generativeAudio';
+
+// Levels and playback settings per sound
+const MUSIC_VOLUME = 0.3; // Kept low to blend with the generative layer
+const MUSIC_PLAYBACK_RATE = 0.8; // Slower, deeper, more meditative
+const SFX_VOLUME: Record<Exclude<AudioAssetName, 'bgm'>, number> = { expand: 0.4, contract: 0.5 };
+
+const DUCK_LEVEL = 0.25; // Music level under narration, relative to normal
+const DUCK_SECONDS = 0.15; // Time constant going down; coming back up takes four times as long
+const LEVEL_RAMP_SECONDS = 0.1; // Slider moves
+const MUTE_RAMP_SECONDS = 0.3; // Fade before the context is suspended
+
+// Sliders are perceptual: gain is the square of the slider position
+const sliderGain = (value: number) => value * value;
+
+// Audio Service: decoded music and SFX with a synthesized fallback per sound, mixed
+// through per-channel buses into a compressed and limited master:
+//
+//   music / drone / sfx bus -> master gain -> compressor -> limiter -> speakers
 class AudioService {
-  private bgm: HTMLAudioElement;
-  private expandSfx: HTMLAudioElement;
-  private contractSfx: HTMLAudioElement;
-  private isMuted: boolean = false;
+  private settings: AudioMixerSettings = loadMixerSettings();
   private initialized: boolean = false;
-  
-  // Web Audio Context for Drone & Fallback
-  private useFallback: boolean = false;
+
+  // Web Audio Context for everything: decoded files, generative layer and synth fallback
   private audioCtx: AudioContext | null = null;
-  private droneNodes: { osc: OscillatorNode, gain: GainNode }[] = [];
+  private assets: AudioAssetLoader;
+  private buses: Record<AudioChannel, GainNode> | null = null;
+  private musicGain: GainNode | null = null;
+  private musicSource: AudioBufferSourceNode | null = null;
+  private output: AudioNode | null = null; // End of the master chain
+  private captureDestination: MediaStreamAudioDestinationNode | null = null;
+  private suspendTimer = 0;
+  private generative: GenerativeAudio | null = null;
+  private palette: SoundPalette = { root: 108, scale: [0, 7, 12, 19, 24] };
 
   constructor() {
-    // 1. Initialize Audio Context (lazy load)
+    // 1. Initialize Audio Context (starts suspended until the first interaction)
     const AudioContextClass = (window.AudioContext || (window as any).webkitAudioContext);
     if (AudioContextClass) {
         this.audioCtx = new AudioContextClass();
+        this.createBuses(this.audioCtx);
     }
 
-    // 2. Initialize Audio Elements
-    
-    // Background Music: Cosmic Meditation / Deep Space Ambient
-    // Using a loopable ambient track, slowed down for meditation feel
-    this.bgm = new Audio('https://assets.mixkit.co/music/preview/mixkit-stars-in-space-120.mp3');
-    this.bgm.loop = true;
-    this.bgm.volume = 0.3; // Kept low to blend with drone
-    this.bgm.playbackRate = 0.8; // Slower, deeper, more meditative
-    this.bgm.preload = "auto";
-
-    // SFX: Ethereal Chime (Expand) - Soft meditation bell
-    this.expandSfx = new Audio('https://assets.mixkit.co/sfx/preview/mixkit-magic-marimba-chime-2811.mp3');
-    this.expandSfx.volume = 0.4;
-    this.expandSfx.preload = "auto";
-
-    // SFX: Soft Breath/Wind (Contract) - Gentle transition
-    this.contractSfx = new Audio('https://assets.mixkit.co/sfx/preview/mixkit-light-wind-gust-2608.mp3');
-    this.contractSfx.volume = 0.5;
-    this.contractSfx.preload = "auto";
-
-    // 3. Robust Error Handling
-    const handleLoadError = (sourceName: string, e: Event | string) => {
-        console.warn(`${sourceName} failed to load. Switching to Synthesis Fallback.`, e);
-        this.useFallback = true;
-    };
-
-    this.bgm.onerror = (e) => handleLoadError("BGM", e);
-    this.expandSfx.onerror = (e) => handleLoadError("Expand SFX", e);
-    this.contractSfx.onerror = (e) => handleLoadError("Contract SFX", e);
+    // 2. Fetch and decode the files; decoding works while the context is suspended
+    this.assets = new AudioAssetLoader(this.audioCtx, APP_CONFIG.audioSources);
+    this.assets.subscribe(() => {
+        // Music that arrives after the ambient started joins in right away
+        if (this.initialized && !this.musicSource && this.assets.getBuffer('bgm')) this.startMusic();
+    });
+    this.assets.load();
   }
 
   // --- PUBLIC API ---
 
   async startAmbient() {
-    if (this.initialized) return;
-    
+    // Muted keeps the context suspended; unmuting starts the ambient
+    if (this.initialized || !this.audioCtx || this.settings.muted) return;
+
     // Ensure AudioContext is running (required for Chrome/Safari)
-    if (this.audioCtx && this.audioCtx.state === 'suspended') {
-        await this.audioCtx.resume();
+    if (this.audioCtx.state === 'suspended') {
+        await this.audioCtx.resume().catch(() => {});
     }
+    if (this.audioCtx.state !== 'running') {
+        // Auto-play policy blocked it
+        console.log("Audio waiting for interaction.");
+        return;
+    }
+    this.initialized = true;
 
-    // START COSMIC DRONE (Generative Layer)
+    // START GENERATIVE LAYER
     // We always play this to add that deep "meditation" vibration
-    this.startDrone();
+    this.startGenerative();
+
+    // Music plays once its file is decoded; without it the generative layer carries on alone
+    this.startMusic();
+  }
+
+  playExpand() {
+    if (this.settings.muted) return;
+    this.playSfx('expand');
+  }
+
+  playContract() {
+    if (this.settings.muted) return;
+    this.playSfx('contract');
+  }
 
-    if (this.useFallback) {
-        this.initialized = true;
+  getMixerSettings(): AudioMixerSettings {
+    return { ...this.settings, volumes: { ...this.settings.volumes } };
+  }
+
+  setChannelVolume(channel: AudioChannel, volume: number) {
+    this.settings = { ...this.settings, volumes: { ...this.settings.volumes, [channel]: Math.min(Math.max(volume, 0), 1) } };
+    saveMixerSettings(this.settings);
+    if (!this.settings.muted) this.rampBus(channel, sliderGain(this.settings.volumes[channel]), LEVEL_RAMP_SECONDS);
+  }
+
+  // Fades out and suspends the context so muted audio costs no CPU, or resumes and fades in
+  async setMuted(muted: boolean) {
+    this.settings = { ...this.settings, muted };
+    saveMixerSettings(this.settings);
+    if (!this.audioCtx) return;
+    window.clearTimeout(this.suspendTimer);
+
+    if (muted) {
+        this.rampBus('master', 0, MUTE_RAMP_SECONDS);
+        this.suspendTimer = window.setTimeout(() => {
+            this.audioCtx?.suspend().catch(() => {});
+        }, MUTE_RAMP_SECONDS * 1000);
         return;
     }
 
-    try {
-      const promise = this.bgm.play();
-      if (promise !== undefined) {
-        await promise;
-        console.log("Ambient music started.");
-      }
-      this.initialized = true;
-    } catch (e) {
-      // Auto-play policy blocked it
-      console.log("Audio waiting for interaction.");
-    }
+    await this.audioCtx.resume().catch(() => {});
+    this.rampBus('master', sliderGain(this.settings.volumes.master), MUTE_RAMP_SECONDS);
+    if (!this.initialized) await this.startAmbient();
   }
 
-  playExpand() {
-    if (this.isMuted) return;
+  // Tonal palette of the focused body; voices glide over to it
+  setPalette(palette: SoundPalette) {
+    this.palette = palette;
+    this.generative?.setPalette(palette);
+  }
 
-    if (this.useFallback) {
-        this.playSynthSfx('expand');
-    } else {
-        this.safePlay(this.expandSfx);
-    }
+  // Hand and scene state, called a few times a second from the render loop
+  modulate(modulation: AudioModulation) {
+    if (this.settings.muted) return;
+    this.generative?.modulate(modulation);
   }
 
-  playContract() {
-    if (this.isMuted) return;
-    
-    if (this.useFallback) {
-        this.playSynthSfx('contract');
-    } else {
-        this.safePlay(this.contractSfx);
-    }
+  // Pulls the music down under speech, and back up afterwards
+  setMusicDucked(ducked: boolean) {
+    if (!this.audioCtx || !this.musicGain) return;
+    const { gain } = this.musicGain;
+    const t = this.audioCtx.currentTime;
+    gain.cancelScheduledValues(t);
+    gain.setValueAtTime(gain.value, t);
+    gain.setTargetAtTime(ducked ? MUSIC_VOLUME * DUCK_LEVEL : MUSIC_VOLUME, t, ducked ? DUCK_SECONDS : DUCK_SECONDS * 4);
   }
 
-  setVolume(vol: number) {
-    this.bgm.volume = vol * 0.6; // Scale relative to drone
-    this.isMuted = vol === 0;
+  isMuted() {
+    return this.settings.muted;
+  }
 
-    if (this.isMuted) {
-        this.bgm.pause();
-        this.toggleDroneVolume(0);
-    } else {
-        this.toggleDroneVolume(0.04); // Restore drone level
-        if (!this.initialized) {
-            this.startAmbient();
-        } else if (!this.useFallback) {
-            this.bgm.play().catch(() => {});
-        }
+  // The mixed output as a stream, for recording video with sound (speech isn't included)
+  getCaptureStream(): MediaStream | null {
+    if (!this.audioCtx || !this.output) return null;
+    if (!this.captureDestination) {
+        this.captureDestination = this.audioCtx.createMediaStreamDestination();
+        this.output.connect(this.captureDestination);
     }
+    return this.captureDestination.stream;
   }
 
-  // --- INTERNAL HELPER METHODS ---
+  // Loading state of the music and SFX files, for the UI
+  getLoadProgress(): AudioLoadProgress {
+    return this.assets.getProgress();
+  }
 
-  private safePlay(audio: HTMLAudioElement) {
-    audio.currentTime = 0;
-    const playPromise = audio.play();
-    if (playPromise !== undefined) {
-        playPromise.catch(error => {
-            console.warn("Playback failed, using synth", error);
-            if (audio === this.expandSfx) this.playSynthSfx('expand');
-            if (audio === this.contractSfx) this.playSynthSfx('contract');
-        });
-    }
+  subscribeLoadProgress(listener: (progress: AudioLoadProgress) => void) {
+    return this.assets.subscribe(listener);
   }
 
-  // --- GENERATIVE AUDIO ENGINE ---
+  // Tries sounds that fell back to synthesis again (e.g. after the network came back)
+  retryAssets() {
+    this.assets.retry();
+  }
 
-  private startDrone() {
-    if (!this.audioCtx || this.droneNodes.length > 0) return;
+  // --- INTERNAL HELPER METHODS ---
 
-    // Cosmic Drone: Tuned to 432Hz harmonics for meditation
-    // 108Hz (Deep A), 216Hz (A3), and a slight detuned layer for texture
-    const freqs = [108, 216, 216.5]; 
-    
-    freqs.forEach((f, i) => {
-        if (!this.audioCtx) return;
-        const osc = this.audioCtx.createOscillator();
-        const gain = this.audioCtx.createGain();
-        const panner = this.audioCtx.createStereoPanner();
+  private startMusic() {
+    const buffer = this.assets.getBuffer('bgm');
+    if (!this.audioCtx || !this.musicGain || !buffer || this.musicSource) return;
+
+    const source = this.audioCtx.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    source.playbackRate.value = MUSIC_PLAYBACK_RATE;
+    source.connect(this.musicGain);
+    source.start();
+    this.musicSource = source;
+    console.log("Ambient music started.");
+  }
 
-        osc.type = 'sine';
-        osc.frequency.value = f;
+  private createBuses(ctx: AudioContext) {
+    // Gentle glue compression, then a brick-wall-ish limiter so stacked SFX can't clip
+    const compressor = ctx.createDynamicsCompressor();
+    compressor.threshold.value = -18;
+    compressor.knee.value = 12;
+    compressor.ratio.value = 3;
+    compressor.attack.value = 0.01;
+    compressor.release.value = 0.25;
+
+    const limiter = ctx.createDynamicsCompressor();
+    limiter.threshold.value = -1;
+    limiter.knee.value = 0;
+    limiter.ratio.value = 20;
+    limiter.attack.value = 0.001;
+    limiter.release.value = 0.1;
+
+    this.buses = Object.fromEntries(AUDIO_CHANNELS.map(channel => {
+      const bus = ctx.createGain();
+      bus.gain.value = channel === 'master' && this.settings.muted ? 0 : sliderGain(this.settings.volumes[channel]);
+      return [channel, bus];
+    })) as Record<AudioChannel, GainNode>;
+
+    this.buses.music.connect(this.buses.master);
+    this.buses.drone.connect(this.buses.master);
+    this.buses.sfx.connect(this.buses.master);
+    this.buses.master.connect(compressor);
+    compressor.connect(limiter);
+    limiter.connect(ctx.destination);
+    this.output = limiter;
+
+    this.musicGain = ctx.createGain();
+    this.musicGain.gain.value = MUSIC_VOLUME;
+    this.musicGain.connect(this.buses.music);
+  }
 
-        // Spread across stereo field
-        panner.pan.value = (i / (freqs.length - 1)) * 2 - 1;
+  private rampBus(channel: AudioChannel, level: number, seconds: number) {
+    if (!this.audioCtx || !this.buses) return;
+    const { gain } = this.buses[channel];
+    const t = this.audioCtx.currentTime;
+    gain.cancelScheduledValues(t);
+    gain.setValueAtTime(gain.value, t);
+    gain.linearRampToValueAtTime(level, t + seconds);
+  }
 
-        osc.connect(panner);
-        panner.connect(gain);
-        gain.connect(this.audioCtx.destination);
+  // Decoded file when ready, synthesized stand-in while loading, retrying or given up
+  private playSfx(name: 'expand' | 'contract') {
+    const buffer = this.assets.getBuffer(name);
+    if (!this.audioCtx || !this.buses || !buffer) {
+        this.playSynthSfx(name);
+        return;
+    }
 
-        // Slow fade in for immersive entry (5 seconds)
-        const t = this.audioCtx.currentTime;
-        gain.gain.setValueAtTime(0, t);
-        gain.gain.linearRampToValueAtTime(0.04, t + 5.0); 
-        
-        osc.start();
-        this.droneNodes.push({ osc, gain });
-    });
+    const source = this.audioCtx.createBufferSource();
+    const gain = this.audioCtx.createGain();
+    source.buffer = buffer;
+    gain.gain.value = SFX_VOLUME[name];
+    source.connect(gain);
+    gain.connect(this.buses.sfx);
+    source.start();
   }
 
-  private toggleDroneVolume(targetVol: number) {
-      if (!this.audioCtx) return;
-      const t = this.audioCtx.currentTime;
-      this.droneNodes.forEach(n => {
-          n.gain.gain.cancelScheduledValues(t);
-          n.gain.gain.linearRampToValueAtTime(targetVol, t + 1.5);
-      });
+  // --- GENERATIVE AUDIO ENGINE ---
+
+  private startGenerative() {
+    if (!this.audioCtx || !this.buses || this.generative) return;
+
+    // Voices wander over the focused body's palette, steered by modulate()
+    this.generative = new GenerativeAudio(this.audioCtx, this.buses.drone, this.palette);
+    this.generative.start();
   }
 
   private playSynthSfx(type: 'expand' | 'contract') {
-    if (!this.audioCtx) return;
+    if (!this.audioCtx || !this.buses) return;
 
     const t = this.audioCtx.currentTime;
     const osc = this.audioCtx.createOscillator();
     const gain = this.audioCtx.createGain();
 
     osc.connect(gain);
-    gain.connect(this.audioCtx.destination);
+    gain.connect(this.buses.sfx);
     osc.type = 'sine';
 
     if (type === 'expand') {
         // Gentle Chime Up
         osc.frequency.setValueAtTime(196, t); // G3
         osc.frequency.exponentialRampToValueAtTime(392, t + 2.5); // G4
-        
+
         gain.gain.setValueAtTime(0, t);
         gain.gain.linearRampToValueAtTime(0.15, t + 0.8);
         gain.gain.exponentialRampToValueAtTime(0.001, t + 4.0);
-        
+
         osc.start(t);
         osc.stop(t + 4.0);
     } else {
         // Breath Down
         osc.frequency.setValueAtTime(200, t);
         osc.frequency.exponentialRampToValueAtTime(60, t + 3.0);
-        
+
         gain.gain.setValueAtTime(0, t);
         gain.gain.linearRampToValueAtTime(0.1, t + 1.0);
         gain.gain.exponentialRampToValueAtTime(0.001, t + 3.0);
-        
+
         osc.start(t);
         osc.stop(t + 3.0);
     }
@@ -0,0 +1,22 @@
+import type { AudioAssetName, AudioAssetSourceName } from '../types';
+
+// Where each sound comes from. Kept free of browser code: the build imports it too, to
+// fetch the mixkit.co files into the bundle (see vite-plugins/audioAssets.ts).
+
+export const AUDIO_ASSETS: Record<AudioAssetName, Record<AudioAssetSourceName, string>> = {
+  // Cosmic Meditation / Deep Space Ambient
+  bgm: {
+    local: '/audio/stars-in-space.mp3',
+    cdn: 'https://assets.mixkit.co/music/preview/mixkit-stars-in-space-120.mp3'
+  },
+  // Ethereal Chime - Soft meditation bell
+  expand: {
+    local: '/audio/magic-marimba-chime.mp3',
+    cdn: 'https://assets.mixkit.co/sfx/preview/mixkit-magic-marimba-chime-2811.mp3'
+  },
+  // Soft Breath/Wind - Gentle transition
+  contract: {
+    local: '/audio/light-wind-gust.mp3',
+    cdn: 'https://assets.mixkit.co/sfx/preview/mixkit-light-wind-gust-2608.mp3'
+  }
+};
@@ -0,0 +1,62 @@
+import { BimanualPose } from '../types';
+
+// Two-hand "stretch and twist" interaction, as pure functions.
+// Scale and roll are measured relative to the pose when both hands first appear,
+// so the nebula doesn't jump when the second hand enters the frame.
+
+export interface BimanualTransform {
+  scale: number; // Zoom multiplier, 1 = untouched
+  roll: number; // Radians around the view axis
+}
+
+export interface BimanualState {
+  anchor: BimanualPose | null; // Pose captured when the two-hand grab started
+  target: BimanualTransform;
+}
+
+export const IDENTITY_TRANSFORM: BimanualTransform = { scale: 1, roll: 0 };
+
+const MIN_SCALE = 0.4;
+const MAX_SCALE = 3.0;
+
+export const createBimanualState = (): BimanualState => ({
+  anchor: null,
+  target: IDENTITY_TRANSFORM
+});
+
+// Wrap an angle into [-PI, PI]
+const wrapAngle = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+
+export const computeBimanualPose = (a: { x: number, y: number }, b: { x: number, y: number }): BimanualPose => {
+  // Order by image x so the angle doesn't flip if handedness labels swap
+  const [left, right] = a.x <= b.x ? [a, b] : [b, a];
+  const dx = right.x - left.x;
+  const dy = right.y - left.y;
+
+  return {
+    distance: Math.sqrt(dx * dx + dy * dy),
+    angle: Math.atan2(dy, dx),
+    center: { x: (left.x + right.x) / 2, y: (left.y + right.y) / 2 }
+  };
+};
+
+// Advance the interaction by one frame. A null pose (fewer than two hands)
+// releases the grab and relaxes back to the single-hand identity transform.
+export const updateBimanual = (state: BimanualState, pose: BimanualPose | null): BimanualState => {
+  if (!pose) {
+    return state.anchor ? createBimanualState() : state;
+  }
+
+  const anchor = state.anchor ?? pose;
+  if (anchor.distance === 0) return { anchor: null, target: IDENTITY_TRANSFORM };
+
+  return {
+    anchor,
+    target: {
+      scale: Math.min(Math.max(pose.distance / anchor.distance, MIN_SCALE), MAX_SCALE),
+      // Landmarks come from the unmirrored camera image, where a counter-clockwise twist
+      // (as the user sees it) increases the angle, matching positive roll around +z
+      roll: wrapAngle(pose.angle - anchor.angle)
+    }
+  };
+};
@@ -0,0 +1,293 @@
+import { BodyLayout, CelestialBodyConfig, CelestialCatalog, SoundPalette, SurfaceGeneratorType, TourStop } from '../types';
+import { MAX_ORBITERS } from '../generation/orbits';
+
+// Loads celestial body catalogs from JSON (URL or dropped file) and validates them
+// against the shape of CelestialBodyConfig, collecting every problem with its path.
+//
+// Accepted formats: `{ "name": "...", "bodies": [...], "tour": [...] }` (tour optional) or a
+// bare array of bodies.
+
+const BODY_TYPES: CelestialBodyConfig['type'][] = ['star', 'planet', 'moon'];
+const TEXTURE_TYPES: SurfaceGeneratorType[] = ['banded', 'noise', 'solid', 'terrestrial'];
+const LAYOUTS: BodyLayout[] = ['body', 'system'];
+const WAVEFORMS: SoundPalette['waveform'][] = ['sine', 'triangle', 'sawtooth', 'square'];
+
+const MAX_RADIUS = 10; // Anything larger fills the whole view
+const TERRESTRIAL_PALETTE_SIZE = 7; // See BiomeParams for the slot order
+
+const HEX_COLOR = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+
+const SURFACE_NUMBER_FIELDS = ['noiseScale', 'bandFrequency', 'turbulence', 'turbulenceFrequency', 'variation', 'detailScale', 'moistureScale'];
+
+export class CatalogValidationError extends Error {
+  constructor(public issues: string[], source: string) {
+    super(`Catalog ${source} is invalid:\n${issues.map(i => `  - ${i}`).join('\n')}`);
+    this.name = 'CatalogValidationError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const describe = (value: unknown) => JSON.stringify(value) ?? String(value);
+
+const validateColors = (value: unknown, path: string, issues: string[], minLength = 1) => {
+  if (!Array.isArray(value)) {
+    issues.push(`${path}: expected an array of hex colors like "#FFAA00"`);
+    return;
+  }
+  if (value.length < minLength) {
+    issues.push(`${path}: expected at least ${minLength} color${minLength > 1 ? 's' : ''}, got ${value.length}`);
+  }
+  value.forEach((color, i) => {
+    if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+      issues.push(`${path}[${i}]: ${describe(color)} is not a hex color (use "#RGB" or "#RRGGBB")`);
+    }
+  });
+};
+
+const validateSurface = (value: unknown, path: string, issues: string[]) => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object`);
+    return;
+  }
+  SURFACE_NUMBER_FIELDS.forEach(field => {
+    if (value[field] !== undefined && !isFiniteNumber(value[field])) {
+      issues.push(`${path}.${field}: expected a number, got ${describe(value[field])}`);
+    }
+  });
+  if (value.biomes !== undefined && !isObject(value.biomes)) {
+    issues.push(`${path}.biomes: expected an object`);
+  }
+  if (value.polarCaps !== undefined) {
+    const caps = value.polarCaps;
+    if (!isObject(caps) || !isFiniteNumber(caps.latitude) || caps.latitude < 0 || caps.latitude > 1) {
+      issues.push(`${path}.polarCaps.latitude: expected a number between 0 and 1`);
+    }
+    if (isObject(caps)) validateColors([caps.color], `${path}.polarCaps.color`, issues);
+  }
+  if (value.cloudLayer !== undefined) {
+    const clouds = value.cloudLayer;
+    if (!isObject(clouds)) {
+      issues.push(`${path}.cloudLayer: expected an object`);
+    } else {
+      ['threshold', 'frequency', 'coverage', 'height'].forEach(field => {
+        if (!isFiniteNumber(clouds[field])) issues.push(`${path}.cloudLayer.${field}: expected a number`);
+      });
+      validateColors([clouds.color], `${path}.cloudLayer.color`, issues);
+    }
+  }
+};
+
+const validateOrbit = (value: unknown, path: string, issues: string[]) => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object`);
+    return;
+  }
+  ['semiMajorAxis', 'inclination', 'periodDays'].forEach(field => {
+    if (!isFiniteNumber(value[field])) issues.push(`${path}.${field}: expected a number, got ${describe(value[field])}`);
+  });
+  if (isFiniteNumber(value.periodDays) && value.periodDays <= 0) {
+    issues.push(`${path}.periodDays: ${value.periodDays} must be greater than 0`);
+  }
+  if (!isFiniteNumber(value.eccentricity) || value.eccentricity < 0 || value.eccentricity >= 1) {
+    issues.push(`${path}.eccentricity: ${describe(value.eccentricity)} must be at least 0 and below 1 (closed orbits only)`);
+  }
+  ['meanLongitude', 'longitudeOfPerihelion', 'longitudeOfAscendingNode'].forEach(field => {
+    if (value[field] !== undefined && !isFiniteNumber(value[field])) {
+      issues.push(`${path}.${field}: expected a number, got ${describe(value[field])}`);
+    }
+  });
+  if (value.parent !== undefined && typeof value.parent !== 'string') {
+    issues.push(`${path}.parent: expected a body name`);
+  }
+};
+
+const INFO_POSITIVE_FIELDS = ['diameterKm', 'massKg', 'distanceKm', 'yearLengthDays'];
+
+const validateInfo = (value: unknown, path: string, issues: string[]) => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object`);
+    return;
+  }
+  INFO_POSITIVE_FIELDS.forEach(field => {
+    if (value[field] !== undefined && (!isFiniteNumber(value[field]) || value[field] <= 0)) {
+      issues.push(`${path}.${field}: ${describe(value[field])} must be a positive number`);
+    }
+  });
+  // Negative means retrograde, zero means nothing
+  if (value.dayLengthHours !== undefined && (!isFiniteNumber(value.dayLengthHours) || value.dayLengthHours === 0)) {
+    issues.push(`${path}.dayLengthHours: ${describe(value.dayLengthHours)} must be a non-zero number (negative for retrograde)`);
+  }
+  if (value.moons !== undefined && (!Number.isInteger(value.moons) || (value.moons as number) < 0)) {
+    issues.push(`${path}.moons: ${describe(value.moons)} must be a whole number, 0 or more`);
+  }
+  if (value.description !== undefined && typeof value.description !== 'string') {
+    issues.push(`${path}.description: expected a string`);
+  }
+};
+
+// Audible range for the lowest voice; the upper voices sit an octave and a scale above
+const MIN_SOUND_ROOT = 20;
+const MAX_SOUND_ROOT = 2000;
+
+const validateSound = (value: unknown, path: string, issues: string[]) => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object`);
+    return;
+  }
+  if (!isFiniteNumber(value.root) || value.root < MIN_SOUND_ROOT || value.root > MAX_SOUND_ROOT) {
+    issues.push(`${path}.root: ${describe(value.root)} must be a frequency in Hz, ${MIN_SOUND_ROOT}-${MAX_SOUND_ROOT}`);
+  }
+  if (!Array.isArray(value.scale) || value.scale.length === 0) {
+    issues.push(`${path}.scale: expected a non-empty array of semitones like [0, 4, 7]`);
+  } else {
+    value.scale.forEach((step, i) => {
+      if (!isFiniteNumber(step)) issues.push(`${path}.scale[${i}]: ${describe(step)} is not a number of semitones`);
+    });
+  }
+  if (value.waveform !== undefined && !WAVEFORMS.includes(value.waveform as SoundPalette['waveform'])) {
+    issues.push(`${path}.waveform: ${describe(value.waveform)} is not one of ${WAVEFORMS.join(', ')}`);
+  }
+};
+
+const validateBody = (value: unknown, path: string, issues: string[]) => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected a body object`);
+    return;
+  }
+
+  const name = typeof value.name === 'string' && value.name.trim() ? value.name : null;
+  const at = name ? `${path} ("${name}")` : path;
+
+  if (!name) issues.push(`${path}.name: expected a non-empty string`);
+  if (!BODY_TYPES.includes(value.type as CelestialBodyConfig['type'])) {
+    issues.push(`${at}.type: ${describe(value.type)} must be one of ${BODY_TYPES.join(', ')}`);
+  }
+  if (!isFiniteNumber(value.radius) || value.radius <= 0 || value.radius > MAX_RADIUS) {
+    issues.push(`${at}.radius: ${describe(value.radius)} must be a number greater than 0 and at most ${MAX_RADIUS}`);
+  }
+
+  const textureType = value.textureType as SurfaceGeneratorType;
+  if (!TEXTURE_TYPES.includes(textureType)) {
+    issues.push(`${at}.textureType: ${describe(value.textureType)} must be one of ${TEXTURE_TYPES.join(', ')}`);
+  }
+  validateColors(value.colors, `${at}.colors`, issues, textureType === 'terrestrial' ? TERRESTRIAL_PALETTE_SIZE : 1);
+
+  // Ring settings must agree with each other
+  if (typeof value.hasRings !== 'boolean') {
+    issues.push(`${at}.hasRings: expected true or false`);
+  } else if (value.hasRings) {
+    if (value.ringColors === undefined) {
+      issues.push(`${at}.ringColors: required when hasRings is true`);
+    } else {
+      validateColors(value.ringColors, `${at}.ringColors`, issues);
+    }
+  } else if (value.ringColors !== undefined) {
+    issues.push(`${at}.ringColors: set but hasRings is false`);
+  }
+
+  if (value.surface !== undefined) validateSurface(value.surface, `${at}.surface`, issues);
+  if (value.layout !== undefined && !LAYOUTS.includes(value.layout as BodyLayout)) {
+    issues.push(`${at}.layout: ${describe(value.layout)} must be one of ${LAYOUTS.join(', ')}`);
+  }
+  if (value.orbitRadius !== undefined && (!isFiniteNumber(value.orbitRadius) || value.orbitRadius <= 0)) {
+    issues.push(`${at}.orbitRadius: ${describe(value.orbitRadius)} must be a positive number`);
+  }
+  if (value.orbit !== undefined) validateOrbit(value.orbit, `${at}.orbit`, issues);
+  if (value.info !== undefined) validateInfo(value.info, `${at}.info`, issues);
+  if (value.sound !== undefined) validateSound(value.sound, `${at}.sound`, issues);
+};
+
+// Moons may only circle a top-level body, so every parent must exist and have no parent itself
+const validateParents = (bodies: unknown[], issues: string[]) => {
+  const byName = new Map<unknown, Record<string, unknown>>();
+  bodies.forEach(b => { if (isObject(b)) byName.set(b.name, b); });
+
+  bodies.forEach((body, i) => {
+    if (!isObject(body) || !isObject(body.orbit) || typeof body.orbit.parent !== 'string') return;
+    const parentName = body.orbit.parent;
+    const parent = byName.get(parentName);
+    const at = `bodies[${i}] ("${String(body.name)}").orbit.parent`;
+    if (!parent) {
+      issues.push(`${at}: no body named "${parentName}" in this catalog`);
+    } else if (parent === body) {
+      issues.push(`${at}: a body cannot orbit itself`);
+    } else if (isObject(parent.orbit) && parent.orbit.parent !== undefined && parent.layout !== 'system') {
+      issues.push(`${at}: "${parentName}" is itself a moon; moons of moons are not supported`);
+    }
+  });
+};
+
+// Tour stops must name bodies in this catalog, each at most once
+const validateTour = (value: unknown, names: string[], issues: string[]) => {
+  if (!Array.isArray(value)) {
+    issues.push('tour: expected an array of stops like { "body": "Earth", "dwellMs": 15000 }');
+    return;
+  }
+  const seen = new Set<string>();
+  value.forEach((stop, i) => {
+    const at = `tour[${i}]`;
+    if (!isObject(stop) || typeof stop.body !== 'string') {
+      issues.push(`${at}: expected an object with a "body" name`);
+      return;
+    }
+    if (!names.includes(stop.body)) issues.push(`${at}.body: no body named "${stop.body}" in this catalog`);
+    if (seen.has(stop.body)) issues.push(`${at}.body: "${stop.body}" is already on the tour`);
+    seen.add(stop.body);
+    if (stop.dwellMs !== undefined && (!isFiniteNumber(stop.dwellMs) || stop.dwellMs <= 0)) {
+      issues.push(`${at}.dwellMs: expected a positive number of milliseconds, got ${describe(stop.dwellMs)}`);
+    }
+  });
+};
+
+// Validates parsed JSON and returns a typed catalog, or throws with every issue found
+export const parseCatalog = (data: unknown, source: string): CelestialCatalog => {
+  const bodies = Array.isArray(data) ? data : isObject(data) ? data.bodies : undefined;
+  const name = isObject(data) && typeof data.name === 'string' && data.name.trim() ? data.name : source;
+
+  const issues: string[] = [];
+  if (!Array.isArray(bodies)) {
+    throw new CatalogValidationError(['expected an array of bodies or an object with a "bodies" array'], source);
+  }
+  if (bodies.length === 0) issues.push('bodies: the catalog is empty');
+
+  bodies.forEach((body, i) => validateBody(body, `bodies[${i}]`, issues));
+  validateParents(bodies, issues);
+
+  const orbiting = bodies.filter(b => !isObject(b) || b.layout !== 'system').length;
+  if (orbiting > MAX_ORBITERS) issues.push(`bodies: at most ${MAX_ORBITERS} bodies can orbit in the system view, found ${orbiting}`);
+
+  const names = bodies.map(b => (isObject(b) ? b.name : undefined)).filter((n): n is string => typeof n === 'string');
+  const duplicates = Array.from(new Set(names.filter((n, i) => names.indexOf(n) !== i)));
+  duplicates.forEach(n => issues.push(`bodies: name "${n}" is used more than once`));
+
+  const systems = bodies.filter(b => isObject(b) && b.layout === 'system').length;
+  if (systems > 1) issues.push(`bodies: only one body may use layout "system", found ${systems}`);
+
+  const tour = isObject(data) ? data.tour : undefined;
+  if (tour !== undefined) validateTour(tour, names, issues);
+
+  if (issues.length > 0) throw new CatalogValidationError(issues, source);
+  return { name, bodies: bodies as CelestialBodyConfig[], tour: tour as TourStop[] | undefined };
+};
+
+const parseJson = (text: string, source: string) => {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new CatalogValidationError([`not valid JSON (${e instanceof Error ? e.message : String(e)})`], source);
+  }
+};
+
+export const loadCatalogFromUrl = async (url: string): Promise<CelestialCatalog> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Catalog ${url} could not be loaded (HTTP ${response.status})`);
+  return parseCatalog(parseJson(await response.text(), url), url);
+};
+
+export const loadCatalogFromFile = async (file: File): Promise<CelestialCatalog> =>
+  parseCatalog(parseJson(await file.text(), file.name), file.name);
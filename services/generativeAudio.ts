@@ -0,0 +1,159 @@
+import { AudioModulation, SoundPalette } from '../types';
+
+// Generative sound layer, synthesized entirely in Web Audio so it works offline.
+// A few voices wander between the notes of the current body's palette and swell in
+// and out; the hand and scene state steer the shared signal chain:
+//
+//   voices -> lowpass (openness) -> panner (hand position) -> output
+//                                        \-> reverb send (expansion) -> convolver -> output
+//
+// Voice detune spreads with rotation speed for a slow chorus.
+
+const VOICES = 4;
+const VOICE_LEVEL = 0.035; // Peak per voice; four voices stay under the old drone's level
+const NOTE_MIN_MS = 3000; // Each voice picks a new note every 3-8 s
+const NOTE_MAX_MS = 8000;
+const GLIDE_SECONDS = 1.2; // Time constant for note changes
+const PALETTE_GLIDE_SECONDS = 0.8; // Faster when the body changes
+const MODULATION_SECONDS = 0.12; // Smoothing of the continuous controls
+const FADE_SECONDS = 5;
+
+const CUTOFF_MIN = 180; // Hz, closed hand
+const CUTOFF_MAX = 4200; // Hz, open hand
+const DETUNE_SPREAD = 24; // Cents between neighbouring voices at full rotation speed
+const REVERB_MIN = 0.15;
+const REVERB_MAX = 0.75;
+const REVERB_SECONDS = 4;
+
+interface Voice {
+  osc: OscillatorNode;
+  gain: GainNode;
+  timer: number;
+}
+
+const noteFrequency = (palette: SoundPalette, voice: number) => {
+  const step = palette.scale[Math.floor(Math.random() * palette.scale.length)];
+  // Alternate voices an octave apart so chords don't bunch up
+  const octave = voice % 2 === 0 ? 0 : 12;
+  return palette.root * Math.pow(2, (step + octave) / 12);
+};
+
+// Stereo noise with an exponential tail; good enough for a big, soft space
+const createImpulseResponse = (ctx: BaseAudioContext, seconds: number) => {
+  const length = Math.floor(ctx.sampleRate * seconds);
+  const buffer = ctx.createBuffer(2, length, ctx.sampleRate);
+  for (let channel = 0; channel < 2; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 3);
+    }
+  }
+  return buffer;
+};
+
+export class GenerativeAudio {
+  private output: GainNode;
+  private filter: BiquadFilterNode;
+  private panner: StereoPannerNode;
+  private reverbSend: GainNode;
+  private voices: Voice[] = [];
+  private palette: SoundPalette;
+
+  constructor(private ctx: AudioContext, destination: AudioNode, palette: SoundPalette) {
+    this.palette = palette;
+
+    this.output = ctx.createGain();
+    this.output.gain.value = 0;
+    this.output.connect(destination);
+
+    this.filter = ctx.createBiquadFilter();
+    this.filter.type = 'lowpass';
+    this.filter.frequency.value = CUTOFF_MAX;
+    this.filter.Q.value = 0.7;
+
+    this.panner = ctx.createStereoPanner();
+
+    this.reverbSend = ctx.createGain();
+    this.reverbSend.gain.value = REVERB_MAX;
+    const convolver = ctx.createConvolver();
+    convolver.buffer = createImpulseResponse(ctx, REVERB_SECONDS);
+
+    this.filter.connect(this.panner);
+    this.panner.connect(this.output);
+    this.panner.connect(this.reverbSend);
+    this.reverbSend.connect(convolver);
+    convolver.connect(this.output);
+  }
+
+  // Starts the voices and fades in
+  start() {
+    if (this.voices.length > 0) return;
+    const t = this.ctx.currentTime;
+
+    for (let i = 0; i < VOICES; i++) {
+      const osc = this.ctx.createOscillator();
+      const gain = this.ctx.createGain();
+      osc.type = this.palette.waveform ?? 'sine';
+      osc.frequency.value = noteFrequency(this.palette, i);
+      gain.gain.value = 0;
+      osc.connect(gain);
+      gain.connect(this.filter);
+      osc.start(t);
+
+      const voice: Voice = { osc, gain, timer: 0 };
+      this.voices.push(voice);
+      this.scheduleNote(voice, i, GLIDE_SECONDS);
+    }
+    this.setLevel(1, FADE_SECONDS);
+  }
+
+  stop() {
+    this.voices.forEach(({ osc, timer }) => {
+      window.clearTimeout(timer);
+      osc.stop();
+    });
+    this.voices = [];
+    this.output.disconnect();
+  }
+
+  // Overall level, 0 (silent) to 1
+  setLevel(level: number, rampSeconds = 1.5) {
+    const t = this.ctx.currentTime;
+    this.output.gain.cancelScheduledValues(t);
+    this.output.gain.setValueAtTime(this.output.gain.value, t);
+    this.output.gain.linearRampToValueAtTime(level, t + rampSeconds);
+  }
+
+  // New body: every voice moves to a note of the new palette right away
+  setPalette(palette: SoundPalette) {
+    this.palette = palette;
+    this.voices.forEach((voice, i) => {
+      voice.osc.type = palette.waveform ?? 'sine';
+      window.clearTimeout(voice.timer);
+      this.scheduleNote(voice, i, PALETTE_GLIDE_SECONDS);
+    });
+  }
+
+  modulate({ openness, pan, rotationSpeed, expansion }: AudioModulation) {
+    const t = this.ctx.currentTime;
+    const cutoff = CUTOFF_MIN * Math.pow(CUTOFF_MAX / CUTOFF_MIN, openness);
+    this.filter.frequency.setTargetAtTime(cutoff, t, MODULATION_SECONDS);
+    this.panner.pan.setTargetAtTime(pan, t, MODULATION_SECONDS);
+    this.reverbSend.gain.setTargetAtTime(REVERB_MIN + (REVERB_MAX - REVERB_MIN) * expansion, t, MODULATION_SECONDS);
+
+    const middle = (this.voices.length - 1) / 2;
+    this.voices.forEach(({ osc }, i) => {
+      osc.detune.setTargetAtTime((i - middle) * DETUNE_SPREAD * rotationSpeed, t, MODULATION_SECONDS);
+    });
+  }
+
+  // Glide to a new note with a fresh swell, then do it again a few seconds later
+  private scheduleNote(voice: Voice, index: number, glideSeconds: number) {
+    const t = this.ctx.currentTime;
+    voice.osc.frequency.setTargetAtTime(noteFrequency(this.palette, index), t, glideSeconds);
+    voice.gain.gain.setTargetAtTime(VOICE_LEVEL * (0.4 + 0.6 * Math.random()), t, glideSeconds * 2);
+
+    const delay = NOTE_MIN_MS + Math.random() * (NOTE_MAX_MS - NOTE_MIN_MS);
+    voice.timer = window.setTimeout(() => this.scheduleNote(voice, index, GLIDE_SECONDS), delay);
+  }
+}
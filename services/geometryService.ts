@@ -0,0 +1,112 @@
+import { CelestialBodyConfig } from '../types';
+import { BodyGeometry, generateBodyGeometry } from '../generation/bodyGeometry';
+import type { GeometryRequest, GeometryResponse } from '../generation/geometry.worker';
+
+// Body geometry generated in a Web Worker so closing a fist doesn't stall the
+// tracking loop. Results are cached per catalog/body/count/seed (revisiting a body
+// is instant). Falls back to the main thread if the worker can't run.
+
+const MAX_CACHED_BODIES = 12; // ~3.3 MB each at 64k particles
+
+interface PendingRequest {
+  request: GeometryRequest;
+  resolve: (geometry: BodyGeometry) => void;
+  reject: (err: Error) => void;
+}
+
+class GeometryService {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private nextId = 0;
+  private pending = new Map<number, PendingRequest>();
+  private cache = new Map<string, Promise<BodyGeometry>>();
+  private catalogIds = new WeakMap<CelestialBodyConfig[], number>();
+  private nextCatalogId = 0;
+
+  request(body: CelestialBodyConfig, catalog: CelestialBodyConfig[], count: number, seed: number): Promise<BodyGeometry> {
+    const key = `${this.catalogId(catalog)}:${body.name}:${count}:${seed}`;
+
+    const cached = this.cache.get(key);
+    if (cached) {
+      // Most recently used goes to the back
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached;
+    }
+
+    const promise = this.generate({ id: this.nextId++, body, catalog, count, seed });
+    this.cache.set(key, promise);
+    promise.catch(() => this.cache.delete(key));
+
+    while (this.cache.size > MAX_CACHED_BODIES) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    return promise;
+  }
+
+  private catalogId(catalog: CelestialBodyConfig[]) {
+    let id = this.catalogIds.get(catalog);
+    if (id === undefined) {
+      id = this.nextCatalogId++;
+      this.catalogIds.set(catalog, id);
+    }
+    return id;
+  }
+
+  private generate(request: GeometryRequest): Promise<BodyGeometry> {
+    const worker = this.getWorker();
+    if (!worker) return this.generateOnMainThread(request);
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(request.id, { request, resolve, reject });
+      worker.postMessage(request);
+    });
+  }
+
+  private generateOnMainThread({ body, catalog, count, seed }: GeometryRequest) {
+    return new Promise<BodyGeometry>(resolve => {
+      // Yield first so the caller's frame finishes, as with the worker
+      setTimeout(() => resolve(generateBodyGeometry(body, catalog, count, seed)), 0);
+    });
+  }
+
+  private getWorker() {
+    if (this.worker || this.workerFailed) return this.worker;
+    try {
+      this.worker = new Worker(new URL('../generation/geometry.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (e: MessageEvent<GeometryResponse>) => this.handleResponse(e.data);
+      this.worker.onerror = (e) => this.handleWorkerFailure(e.message);
+    } catch (err) {
+      this.handleWorkerFailure(err instanceof Error ? err.message : String(err));
+    }
+    return this.worker;
+  }
+
+  private handleResponse(response: GeometryResponse) {
+    const entry = this.pending.get(response.id);
+    if (!entry) return;
+    this.pending.delete(response.id);
+
+    if ('error' in response) {
+      entry.reject(new Error(`Generating ${entry.request.body.name} failed: ${response.error}`));
+    } else {
+      entry.resolve(response.geometry);
+    }
+  }
+
+  // Worker couldn't load or crashed: finish outstanding requests on the main thread
+  private handleWorkerFailure(reason: string) {
+    console.warn('Geometry worker unavailable, generating on the main thread:', reason);
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFailed = true;
+
+    const outstanding = Array.from(this.pending.values());
+    this.pending.clear();
+    outstanding.forEach(({ request, resolve, reject }) => {
+      this.generateOnMainThread(request).then(resolve, reject);
+    });
+  }
+}
+
+export const geometryService = new GeometryService();
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture } from '../fixtures/loadFixture';
+import { GestureEvent, GestureName, GestureScores, HandLandmark } from '../types';
+import {
+  classifyGesture,
+  createGestureTrackerState,
+  DEFAULT_GESTURE_OPTIONS,
+  GESTURE_NAMES,
+  updateGestureTracker
+} from './gestureRecognizer';
+
+const recording = loadFixture('open-then-fist.landmarks.json');
+const handAt = (index: number): HandLandmark[] => recording.frames[index].result.landmarks[0];
+const OPEN = handAt(20);
+const FIST = handAt(50);
+
+const best = (scores: GestureScores) =>
+  GESTURE_NAMES.reduce<GestureName>((top, name) => (scores[name] > scores[top] ? name : top), GESTURE_NAMES[0]);
+
+// Feeds one score set per 33 ms frame and collects the tracker's events
+const track = (frames: (GestureScores | null)[]) => {
+  let state = createGestureTrackerState();
+  const events: GestureEvent[] = [];
+  frames.forEach((scores, i) => {
+    const step = updateGestureTracker(state, scores, i * 33, 'Right');
+    state = step.state;
+    events.push(...step.events);
+  });
+  return { state, events };
+};
+
+const edges = (events: GestureEvent[]) => events.map(e => ('gesture' in e ? `${e.type} ${e.gesture}` : e.type));
+
+const repeat = <T,>(value: T, n: number): T[] => Array.from({ length: n }, () => value);
+
+describe('classifyGesture', () => {
+  it('recognizes the open hand of the fixture', () => {
+    const scores = classifyGesture(OPEN);
+    expect(best(scores)).toBe('open_palm');
+    expect(scores.open_palm).toBeGreaterThanOrEqual(DEFAULT_GESTURE_OPTIONS.enterThreshold);
+  });
+
+  it('recognizes the fist of the fixture', () => {
+    const scores = classifyGesture(FIST);
+    expect(best(scores)).toBe('fist');
+    expect(scores.fist).toBeGreaterThanOrEqual(DEFAULT_GESTURE_OPTIONS.enterThreshold);
+  });
+
+  it('keeps every other gesture below the enter threshold', () => {
+    [OPEN, FIST].forEach(hand => {
+      const scores = classifyGesture(hand);
+      const top = best(scores);
+      GESTURE_NAMES.filter(name => name !== top)
+        .forEach(name => expect(scores[name]).toBeLessThan(DEFAULT_GESTURE_OPTIONS.enterThreshold));
+    });
+  });
+});
+
+describe('updateGestureTracker', () => {
+  const open = classifyGesture(OPEN);
+  const fist = classifyGesture(FIST);
+
+  it('starts a gesture only after it has been on top for the debounce time', () => {
+    const { events } = track(repeat(open, 10));
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'gesture-start', gesture: 'open_palm', previous: null });
+    expect(events[0].timestamp).toBeGreaterThanOrEqual(DEFAULT_GESTURE_OPTIONS.debounceMs);
+  });
+
+  it('ignores a gesture shown for less than the debounce time', () => {
+    const { events } = track([...repeat(open, 10), fist, fist, ...repeat(open, 10)]);
+    expect(edges(events)).toEqual(['gesture-start open_palm']);
+  });
+
+  it('holds the active gesture while its score stays above the exit threshold', () => {
+    const weaker = { ...open, open_palm: (DEFAULT_GESTURE_OPTIONS.enterThreshold + DEFAULT_GESTURE_OPTIONS.exitThreshold) / 2 };
+    const { state, events } = track([...repeat(open, 10), ...repeat(weaker, 10)]);
+    expect(events).toHaveLength(1);
+    expect(state.active).toBe('open_palm');
+  });
+
+  it('ends one gesture and starts the next in the same frame', () => {
+    const { events } = track([...repeat(open, 10), ...repeat(fist, 10)]);
+    expect(edges(events)).toEqual(['gesture-start open_palm', 'gesture-end open_palm', 'gesture-start fist']);
+    expect(events[1].timestamp).toBe(events[2].timestamp);
+    expect(events[2]).toMatchObject({ previous: 'open_palm' });
+  });
+
+  it('ends the gesture once the hand is gone', () => {
+    const { state, events } = track([...repeat(fist, 10), ...repeat(null, 10)]);
+    expect(edges(events)).toEqual(['gesture-start fist', 'gesture-end fist']);
+    expect(state.active).toBeNull();
+  });
+});
@@ -0,0 +1,172 @@
+import { GestureEvent, GestureName, GestureScores, HandLandmark, Handedness } from '../types';
+
+// Gesture recognition as pure functions over the 21 MediaPipe hand landmarks.
+// No DOM or MediaPipe dependency, so recorded landmark fixtures can be fed straight in.
+
+export const GESTURE_NAMES: GestureName[] = ['open_palm', 'fist', 'pinch', 'point', 'victory', 'thumbs_up', 'ok_sign'];
+
+// Landmark indices (see MediaPipe hand model)
+const WRIST = 0;
+const THUMB_MCP = 2;
+const THUMB_TIP = 4;
+const INDEX = { mcp: 5, pip: 6, tip: 8 };
+const MIDDLE = { mcp: 9, pip: 10, tip: 12 };
+const RING = { mcp: 13, pip: 14, tip: 16 };
+const PINKY = { mcp: 17, pip: 18, tip: 20 };
+
+export interface GestureTrackerOptions {
+  enterThreshold: number; // Score needed to become the active gesture
+  exitThreshold: number; // Active gesture is held until its score drops below this
+  debounceMs: number; // A new candidate must stay on top this long before committing
+}
+
+export const DEFAULT_GESTURE_OPTIONS: GestureTrackerOptions = {
+  enterThreshold: 0.65,
+  exitThreshold: 0.4,
+  debounceMs: 120
+};
+
+export interface GestureTrackerState {
+  active: GestureName | null;
+  activeConfidence: number;
+  candidate: GestureName | null;
+  candidateSince: number;
+}
+
+// --- GEOMETRY HELPERS ---
+
+// Image-plane distance (z is too noisy to be useful here)
+const dist = (a: HandLandmark, b: HandLandmark) => Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+
+const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+
+// Soft threshold: 0 below edge0, 1 above edge1
+const smoothstep = (edge0: number, edge1: number, v: number) => {
+  const t = clamp01((v - edge0) / (edge1 - edge0));
+  return t * t * (3 - 2 * t);
+};
+
+// Extended finger: tip clearly further from the wrist than its PIP joint
+const fingerExtension = (lm: HandLandmark[], finger: { pip: number, tip: number }) => {
+  const pipDist = dist(lm[WRIST], lm[finger.pip]);
+  if (pipDist === 0) return 0;
+  return smoothstep(0.95, 1.25, dist(lm[WRIST], lm[finger.tip]) / pipDist);
+};
+
+// --- FEATURES ---
+
+export interface HandFeatures {
+  index: number; // Extension of each finger, 0 (curled) to 1 (extended)
+  middle: number;
+  ring: number;
+  pinky: number;
+  thumb: number;
+  thumbUp: number; // Thumb pointing up in image space
+  pinch: number; // Thumb tip touching index tip
+}
+
+export const extractHandFeatures = (lm: HandLandmark[]): HandFeatures => {
+  // Palm length is the scale reference (depth approximation)
+  const palm = dist(lm[WRIST], lm[MIDDLE.mcp]) || 1;
+
+  return {
+    index: fingerExtension(lm, INDEX),
+    middle: fingerExtension(lm, MIDDLE),
+    ring: fingerExtension(lm, RING),
+    pinky: fingerExtension(lm, PINKY),
+    thumb: smoothstep(0.35, 0.6, dist(lm[THUMB_TIP], lm[INDEX.mcp]) / palm),
+    thumbUp: smoothstep(0.3, 0.6, (lm[THUMB_MCP].y - lm[THUMB_TIP].y) / palm),
+    pinch: 1 - smoothstep(0.12, 0.3, dist(lm[THUMB_TIP], lm[INDEX.tip]) / palm)
+  };
+};
+
+// Per-gesture confidence. Each score is a fuzzy AND (min) of its required features.
+export const classifyGesture = (lm: HandLandmark[]): GestureScores => {
+  const f = extractHandFeatures(lm);
+  const curled = (v: number) => 1 - v;
+  const othersExtended = Math.min(f.middle, f.ring, f.pinky);
+
+  return {
+    open_palm: Math.min(f.index, f.middle, f.ring, f.pinky, f.thumb, curled(f.pinch)),
+    fist: Math.min(curled(f.index), curled(f.middle), curled(f.ring), curled(f.pinky), curled(f.thumbUp)),
+    pinch: Math.min(f.pinch, curled(othersExtended)),
+    point: Math.min(f.index, curled(f.middle), curled(f.ring), curled(f.pinky), curled(f.pinch)),
+    victory: Math.min(f.index, f.middle, curled(f.ring), curled(f.pinky), curled(f.pinch)),
+    thumbs_up: Math.min(f.thumb, f.thumbUp, curled(f.index), curled(f.middle), curled(f.ring), curled(f.pinky)),
+    ok_sign: Math.min(f.pinch, othersExtended)
+  };
+};
+
+// Continuous openness from middle finger reach, 0 (closed) to 1 (open)
+export const computeOpenness = (lm: HandLandmark[]) => {
+  const scale = dist(lm[WRIST], lm[INDEX.mcp]);
+  if (scale === 0) return 0;
+  const extensionRatio = dist(lm[MIDDLE.tip], lm[WRIST]) / scale;
+  return clamp01((extensionRatio - 0.8) / 1.5);
+};
+
+// Approximate hand centroid in normalized [0, 1] image space.
+// NOTE: Landmarks are relative to the source video, not the mirrored preview.
+export const computeHandCenter = (lm: HandLandmark[]) => ({
+  x: (lm[WRIST].x + lm[INDEX.mcp].x + lm[PINKY.tip].x) / 3,
+  y: (lm[WRIST].y + lm[INDEX.mcp].y + lm[PINKY.tip].y) / 3
+});
+
+// --- TEMPORAL TRACKING (debounce + hysteresis) ---
+
+export const createGestureTrackerState = (): GestureTrackerState => ({
+  active: null,
+  activeConfidence: 0,
+  candidate: null,
+  candidateSince: 0
+});
+
+const topGesture = (scores: GestureScores) => {
+  let best: GestureName = GESTURE_NAMES[0];
+  for (const name of GESTURE_NAMES) {
+    if (scores[name] > scores[best]) best = name;
+  }
+  return { gesture: best, confidence: scores[best] };
+};
+
+// Advance the tracker for one hand by one frame. Pass null scores when that hand is not visible.
+// Returns the next state plus any start/end events produced by this frame.
+export const updateGestureTracker = (
+  state: GestureTrackerState,
+  scores: GestureScores | null,
+  timestamp: number,
+  hand: Handedness,
+  options: GestureTrackerOptions = DEFAULT_GESTURE_OPTIONS
+): { state: GestureTrackerState, events: GestureEvent[] } => {
+  // Hysteresis: keep the active gesture while it stays above the exit threshold
+  if (state.active && scores && scores[state.active] >= options.exitThreshold) {
+    return {
+      state: { ...state, activeConfidence: scores[state.active], candidate: state.active, candidateSince: timestamp },
+      events: []
+    };
+  }
+
+  const top = scores ? topGesture(scores) : null;
+  const proposed = top && top.confidence >= options.enterThreshold ? top.gesture : null;
+
+  const next: GestureTrackerState = proposed === state.candidate
+    ? { ...state }
+    : { ...state, candidate: proposed, candidateSince: timestamp };
+
+  if (proposed === state.active || timestamp - next.candidateSince < options.debounceMs) {
+    return { state: next, events: [] };
+  }
+
+  // Commit the candidate
+  const events: GestureEvent[] = [];
+  if (state.active) {
+    events.push({ type: 'gesture-end', hand, gesture: state.active, timestamp });
+  }
+  if (proposed && top) {
+    events.push({ type: 'gesture-start', hand, gesture: proposed, confidence: top.confidence, previous: state.active, timestamp });
+  }
+
+  next.active = proposed;
+  next.activeConfidence = top && proposed ? top.confidence : 0;
+  return { state: next, events };
+};
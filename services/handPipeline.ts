@@ -0,0 +1,140 @@
+import { GestureEvent, GestureScores, HandFrame, Handedness, RecordedHandResult, TrackedHand } from '../types';
+import {
+  classifyGesture,
+  computeHandCenter,
+  computeOpenness,
+  createGestureTrackerState,
+  GestureTrackerState,
+  updateGestureTracker
+} from './gestureRecognizer';
+import { computeBimanualPose } from './bimanual';
+import { createHandSignalState, HandSignalState, readHandSignal, updateHandSignal } from './handSignal';
+import { createSwipeState, SwipeState, updateSwipe } from './swipeDetector';
+
+// Everything between a detector result and the app: classification, per-hand signal
+// conditioning, gesture and swipe tracking and the published HandFrame. Pure, so the
+// live camera, a replayed recording and fixture tests all take the same path.
+
+export const MAX_HANDS = 2;
+
+const HANDS: Handedness[] = ['Left', 'Right'];
+
+export interface HandPipelineState {
+  trackers: Record<Handedness, GestureTrackerState>;
+  signals: Record<Handedness, HandSignalState>;
+  swipes: Record<Handedness, SwipeState>;
+  // Last classification per hand, reused while a hand is held through a dropout
+  lastDetected: Record<Handedness, { scores: GestureScores, handednessScore: number } | null>;
+}
+
+export const createHandPipelineState = (): HandPipelineState => ({
+  trackers: { Left: createGestureTrackerState(), Right: createGestureTrackerState() },
+  signals: { Left: createHandSignalState(), Right: createHandSignalState() },
+  swipes: { Left: createSwipeState(), Right: createSwipeState() },
+  lastDetected: { Left: null, Right: null }
+});
+
+// Advance the pipeline by one detector result (live or recorded)
+export const updateHandPipeline = (
+  state: HandPipelineState,
+  result: RecordedHandResult,
+  timestamp: number
+): { state: HandPipelineState, events: GestureEvent[], frame: HandFrame } => {
+  const next: HandPipelineState = {
+    trackers: { ...state.trackers },
+    signals: { ...state.signals },
+    swipes: { ...state.swipes },
+    lastDetected: { ...state.lastDetected }
+  };
+  const events: GestureEvent[] = [];
+
+  // Classify every detected hand, keyed by handedness
+  const detected = (result.landmarks ?? []).slice(0, MAX_HANDS).map((landmarks, i) => {
+    const category = result.handedness?.[i]?.[0];
+    // If both hands get the same label, fall back to detection order
+    const handedness: Handedness = category?.categoryName === 'Left' ? 'Left' : 'Right';
+    return { landmarks, handedness, handednessScore: category?.score ?? 0, scores: classifyGesture(landmarks) };
+  });
+  if (detected.length === 2 && detected[0].handedness === detected[1].handedness) {
+    detected[1].handedness = detected[0].handedness === 'Left' ? 'Right' : 'Left';
+  }
+
+  // Per hand: gate on confidence, filter, and track present/lost with grace periods.
+  // Gestures advance only while a hand is tracked, are held through brief dropouts
+  // and end once the hand is reported lost.
+  const hands: TrackedHand[] = [];
+  const sightings: Record<Handedness, { x: number, y: number } | null> = { Left: null, Right: null };
+  HANDS.forEach(handedness => {
+    const hand = detected.find(d => d.handedness === handedness);
+    const observation = hand
+      ? { position: computeHandCenter(hand.landmarks), openness: computeOpenness(hand.landmarks), confidence: hand.handednessScore }
+      : null;
+    const signal = updateHandSignal(next.signals[handedness], observation, timestamp, handedness);
+    next.signals[handedness] = signal.state;
+
+    const { presence } = signal.state;
+    if (presence === 'tracking' && hand) {
+      next.lastDetected[handedness] = { scores: hand.scores, handednessScore: hand.handednessScore };
+    }
+    if (presence === 'tracking' || presence === 'absent') {
+      const scores = presence === 'tracking' ? hand?.scores ?? null : null;
+      const tracked = updateGestureTracker(next.trackers[handedness], scores, timestamp, handedness);
+      next.trackers[handedness] = tracked.state;
+      events.push(...tracked.events);
+    }
+    events.push(...signal.events);
+
+    const reading = readHandSignal(signal.state);
+
+    // Swipes only from fresh sightings, not positions held through a dropout
+    sightings[handedness] = presence === 'tracking' && reading ? reading.position : null;
+
+    const last = next.lastDetected[handedness];
+    if (!reading || !last || (presence !== 'tracking' && presence !== 'holding')) return;
+
+    const tracker = next.trackers[handedness];
+    hands.push({
+      handedness,
+      handednessScore: last.handednessScore,
+      presence,
+      gesture: tracker.active,
+      confidence: tracker.activeConfidence,
+      openness: reading.openness,
+      position: reading.position,
+      scores: last.scores
+    });
+  });
+
+  // Detection order decides the primary hand; held hands go last
+  const order = (h: TrackedHand) => {
+    const i = detected.findIndex(d => d.handedness === h.handedness);
+    return i < 0 ? MAX_HANDS : i;
+  };
+  hands.sort((a, b) => order(a) - order(b));
+
+  const primary = hands[0];
+  const bimanual = hands.length === 2 ? computeBimanualPose(hands[0].position, hands[1].position) : null;
+
+  // Swipes are a one-hand gesture: a two-hand stretch moves both hands fast in opposite
+  // directions and would read as a swipe each way
+  const swipesAllowed = hands.length === 1 && !bimanual;
+  HANDS.forEach(handedness => {
+    const swipe = updateSwipe(next.swipes[handedness], swipesAllowed ? sightings[handedness] : null, timestamp, handedness);
+    next.swipes[handedness] = swipe.state;
+    events.push(...swipe.events);
+  });
+
+  const frame: HandFrame = {
+    handPresent: Boolean(primary),
+    gesture: primary?.gesture ?? null,
+    confidence: primary?.confidence ?? 0,
+    openness: primary?.openness ?? null,
+    position: primary?.position ?? null,
+    scores: primary?.scores ?? null,
+    hands,
+    bimanual,
+    timestamp
+  };
+
+  return { state: next, events, frame };
+};
@@ -0,0 +1,134 @@
+import { GestureEvent, HandPresence, Handedness } from '../types';
+
+// Signal conditioning for one tracked hand: confidence gating, present/lost states
+// with grace periods, and One Euro filtering of position and openness.
+// Pure functions over plain state, like gestureRecognizer.
+
+export interface OneEuroParams {
+  minCutoff: number; // Hz; lower = smoother at rest
+  beta: number; // Speed coefficient; higher = less lag on fast moves
+  dCutoff: number; // Hz, for the derivative estimate
+}
+
+export interface OneEuroState {
+  value: number;
+  derivative: number;
+  timestamp: number; // ms
+}
+
+export interface HandObservation {
+  position: { x: number, y: number };
+  openness: number;
+  confidence: number; // Detection/handedness score from MediaPipe
+}
+
+export interface HandSignalOptions {
+  minConfidence: number; // Observations below this count as no hand
+  acquireMs: number; // Hand must be seen this long before it is reported
+  lostGraceMs: number; // A vanished hand is held this long before it is reported lost
+  position: OneEuroParams;
+  openness: OneEuroParams;
+}
+
+export const DEFAULT_HAND_SIGNAL_OPTIONS: HandSignalOptions = {
+  minConfidence: 0.5,
+  acquireMs: 80,
+  lostGraceMs: 300,
+  position: { minCutoff: 1.0, beta: 5.0, dCutoff: 1.0 },
+  openness: { minCutoff: 1.5, beta: 2.0, dCutoff: 1.0 }
+};
+
+export interface HandSignalState {
+  presence: HandPresence;
+  seenSince: number;
+  lastSeen: number;
+  x: OneEuroState | null;
+  y: OneEuroState | null;
+  openness: OneEuroState | null;
+}
+
+// --- ONE EURO FILTER (Casiez et al. 2012) ---
+
+const smoothingFactor = (cutoff: number, dtSeconds: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dtSeconds);
+};
+
+export const updateOneEuro = (state: OneEuroState | null, value: number, timestamp: number, params: OneEuroParams): OneEuroState => {
+  if (!state) return { value, derivative: 0, timestamp };
+
+  const dt = Math.max((timestamp - state.timestamp) / 1000, 1e-3);
+  const rawDerivative = (value - state.value) / dt;
+  const derivative = state.derivative + smoothingFactor(params.dCutoff, dt) * (rawDerivative - state.derivative);
+  const cutoff = params.minCutoff + params.beta * Math.abs(derivative);
+
+  return {
+    value: state.value + smoothingFactor(cutoff, dt) * (value - state.value),
+    derivative,
+    timestamp
+  };
+};
+
+// --- PRESENCE ---
+
+export const createHandSignalState = (): HandSignalState => ({
+  presence: 'absent',
+  seenSince: 0,
+  lastSeen: 0,
+  x: null,
+  y: null,
+  openness: null
+});
+
+// Filtered values, or null while the hand isn't reported
+export const readHandSignal = (state: HandSignalState) =>
+  state.presence === 'tracking' || state.presence === 'holding'
+    ? { position: { x: state.x!.value, y: state.y!.value }, openness: state.openness!.value }
+    : null;
+
+// Advance one hand by one frame. Pass null when the hand isn't detected.
+// Emits hand-found once the hand has been seen for acquireMs, and hand-lost once it
+// has been gone for lostGraceMs; brief dropouts in between are held, not reported.
+export const updateHandSignal = (
+  state: HandSignalState,
+  observation: HandObservation | null,
+  timestamp: number,
+  hand: Handedness,
+  options: HandSignalOptions = DEFAULT_HAND_SIGNAL_OPTIONS
+): { state: HandSignalState, events: GestureEvent[] } => {
+  const seen = observation !== null && observation.confidence >= options.minConfidence;
+
+  if (!seen) {
+    if (state.presence === 'tracking') {
+      return { state: { ...state, presence: 'holding' }, events: [] };
+    }
+    if (state.presence === 'holding' && timestamp - state.lastSeen > options.lostGraceMs) {
+      return { state: createHandSignalState(), events: [{ type: 'hand-lost', hand, timestamp }] };
+    }
+    if (state.presence === 'acquiring') {
+      return { state: createHandSignalState(), events: [] };
+    }
+    return { state, events: [] };
+  }
+
+  const next: HandSignalState = {
+    ...state,
+    lastSeen: timestamp,
+    x: updateOneEuro(state.x, observation.position.x, timestamp, options.position),
+    y: updateOneEuro(state.y, observation.position.y, timestamp, options.position),
+    openness: updateOneEuro(state.openness, observation.openness, timestamp, options.openness)
+  };
+
+  if (state.presence === 'absent') {
+    next.presence = 'acquiring';
+    next.seenSince = timestamp;
+  }
+  if (next.presence === 'holding') {
+    next.presence = 'tracking';
+  }
+  if (next.presence === 'acquiring' && timestamp - next.seenSince >= options.acquireMs) {
+    next.presence = 'tracking';
+    return { state: next, events: [{ type: 'hand-found', hand, timestamp }] };
+  }
+  return { state: next, events: [] };
+};
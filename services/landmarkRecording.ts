@@ -0,0 +1,152 @@
+import { LandmarkRecording, RecordedHandResult, RecordedLandmarkFrame } from '../types';
+
+// Captures timestamped detector results to JSON so gesture logic and visuals can be
+// exercised without a camera (see landmarkReplay.ts), and loads them back with the
+// same path-by-path validation as catalogs.
+
+const LANDMARKS_PER_HAND = 21;
+const PRECISION = 1e4; // Landmarks are rounded to 4 decimals; well below detector jitter
+const MAX_REPORTED_ISSUES = 20; // A broken file would otherwise report every frame
+
+export class RecordingValidationError extends Error {
+  constructor(public issues: string[], source: string) {
+    super(`Recording ${source} is invalid:\n${issues.map(i => `  - ${i}`).join('\n')}`);
+    this.name = 'RecordingValidationError';
+  }
+}
+
+const round = (value: number) => Math.round(value * PRECISION) / PRECISION;
+
+// Only what the pipeline reads, so files stay small and independent of MediaPipe
+const toRecordedResult = (result: RecordedHandResult): RecordedHandResult => ({
+  landmarks: (result.landmarks ?? []).map(hand => hand.map(({ x, y, z }) => ({ x: round(x), y: round(y), z: round(z) }))),
+  handedness: (result.handedness ?? []).map(categories =>
+    categories.map(({ categoryName, score }) => ({ categoryName, score: round(score) }))
+  )
+});
+
+export class LandmarkRecorder {
+  private frames: RecordedLandmarkFrame[] = [];
+  private active = false;
+  private startedAt = 0;
+  private recordedAt = '';
+
+  get isRecording() {
+    return this.active;
+  }
+
+  start() {
+    this.frames = [];
+    this.active = true;
+    this.recordedAt = new Date().toISOString();
+  }
+
+  record(result: RecordedHandResult, timestamp: number) {
+    if (!this.active) return;
+    // Time starts at the first result, so a recording opens on a frame
+    if (this.frames.length === 0) this.startedAt = timestamp;
+    this.frames.push({ t: Math.round(timestamp - this.startedAt), result: toRecordedResult(result) });
+  }
+
+  // Ends the recording; null if nothing was captured
+  stop(): LandmarkRecording | null {
+    const frames = this.frames;
+    this.frames = [];
+    this.active = false;
+    if (frames.length === 0) return null;
+    return { version: 1, recordedAt: this.recordedAt, durationMs: frames[frames.length - 1].t, frames };
+  }
+}
+
+export const landmarkRecorder = new LandmarkRecorder();
+
+export const downloadRecording = (recording: LandmarkRecording) => {
+  const stamp = recording.recordedAt.replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  const url = URL.createObjectURL(new Blob([JSON.stringify(recording)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `hands-${stamp}.landmarks.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// --- LOADING ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const validateResult = (value: unknown, path: string, issues: string[]) => {
+  if (!isObject(value) || !Array.isArray(value.landmarks) || !Array.isArray(value.handedness)) {
+    issues.push(`${path}: expected an object with "landmarks" and "handedness" arrays`);
+    return;
+  }
+  value.landmarks.forEach((hand, h) => {
+    if (!Array.isArray(hand) || hand.length !== LANDMARKS_PER_HAND) {
+      issues.push(`${path}.landmarks[${h}]: expected ${LANDMARKS_PER_HAND} landmarks`);
+    } else if (!hand.every(lm => isObject(lm) && isFiniteNumber(lm.x) && isFiniteNumber(lm.y) && isFiniteNumber(lm.z))) {
+      issues.push(`${path}.landmarks[${h}]: every landmark needs numeric x, y and z`);
+    }
+  });
+  value.handedness.forEach((categories, h) => {
+    const valid = Array.isArray(categories)
+      && categories.every(c => isObject(c) && typeof c.categoryName === 'string' && isFiniteNumber(c.score));
+    if (!valid) issues.push(`${path}.handedness[${h}]: expected categories with "categoryName" and "score"`);
+  });
+};
+
+export const parseLandmarkRecording = (data: unknown, source: string): LandmarkRecording => {
+  if (!isObject(data) || !Array.isArray(data.frames)) {
+    throw new RecordingValidationError(['expected an object with a "frames" array'], source);
+  }
+
+  const issues: string[] = [];
+  if (data.version !== 1) issues.push(`version: expected 1, got ${JSON.stringify(data.version)}`);
+  if (data.frames.length === 0) issues.push('frames: the recording is empty');
+
+  let previous = 0;
+  data.frames.forEach((frame, i) => {
+    if (!isObject(frame) || !isFiniteNumber(frame.t)) {
+      issues.push(`frames[${i}]: expected an object with a numeric "t"`);
+      return;
+    }
+    if (frame.t < previous) issues.push(`frames[${i}].t: ${frame.t} is earlier than the frame before it`);
+    previous = frame.t;
+    validateResult(frame.result, `frames[${i}].result`, issues);
+  });
+
+  if (issues.length > MAX_REPORTED_ISSUES) {
+    issues.splice(MAX_REPORTED_ISSUES, issues.length, `...and ${issues.length - MAX_REPORTED_ISSUES} more`);
+  }
+  if (issues.length > 0) throw new RecordingValidationError(issues, source);
+
+  const frames = data.frames as RecordedLandmarkFrame[];
+  return {
+    version: 1,
+    recordedAt: typeof data.recordedAt === 'string' ? data.recordedAt : '',
+    durationMs: frames[frames.length - 1].t,
+    frames
+  };
+};
+
+const parseJson = (text: string, source: string) => {
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new RecordingValidationError([`not valid JSON (${e instanceof Error ? e.message : String(e)})`], source);
+  }
+};
+
+export const loadRecordingFromUrl = async (url: string): Promise<LandmarkRecording> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Recording ${url} could not be loaded (HTTP ${response.status})`);
+  return parseLandmarkRecording(parseJson(await response.text(), url), url);
+};
+
+export const loadRecordingFromFile = async (file: File): Promise<LandmarkRecording> =>
+  parseLandmarkRecording(parseJson(await file.text(), file.name), file.name);
+
+// Dropped files with this suffix are replayed instead of loaded as catalogs
+export const isRecordingFile = (file: File) => file.name.endsWith('.landmarks.json');
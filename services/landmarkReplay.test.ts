@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { loadFixture } from '../fixtures/loadFixture';
+import { GestureEvent } from '../types';
+import { createHandPipelineState, updateHandPipeline } from './handPipeline';
+import { LandmarkReplay, runRecording } from './landmarkReplay';
+
+const gestureEdges = (events: GestureEvent[]) => events
+  .filter(e => e.type === 'gesture-start' || e.type === 'gesture-end')
+  .map(e => `${e.type} ${e.gesture}`);
+
+describe('runRecording', () => {
+  const recording = loadFixture('open-then-fist.landmarks.json');
+
+  it('reports an open palm, then a fist, then the fist ending when the hand leaves', () => {
+    const { events } = runRecording(recording);
+    expect(gestureEdges(events)).toEqual([
+      'gesture-start open_palm',
+      'gesture-end open_palm',
+      'gesture-start fist',
+      'gesture-end fist'
+    ]);
+  });
+
+  it('commits each gesture within the acquire and debounce time of its first frame', () => {
+    const { events } = runRecording(recording);
+    const open = events.find(e => e.type === 'gesture-start' && e.gesture === 'open_palm')!;
+    const fist = events.find(e => e.type === 'gesture-start' && e.gesture === 'fist')!;
+    expect(open.timestamp).toBeGreaterThanOrEqual(330);
+    expect(open.timestamp).toBeLessThan(330 + 300);
+    expect(fist.timestamp).toBeGreaterThanOrEqual(1320);
+    expect(fist.timestamp).toBeLessThan(1320 + 200);
+  });
+
+  it('publishes the hand only while it is in view', () => {
+    const { frames } = runRecording(recording);
+    expect(frames[0].handPresent).toBe(false);
+    expect(frames[30].handPresent).toBe(true);
+    expect(frames[frames.length - 1].handPresent).toBe(false);
+  });
+});
+
+describe('LandmarkReplay', () => {
+  const recording = loadFixture('open-then-fist.landmarks.json');
+
+  // Plays the recording at `speed` with 60 Hz animation frames, feeding every frame read
+  const replayEvents = (speed: number) => {
+    const replay = new LandmarkReplay(recording, 'fixture');
+    replay.setLoop(false);
+    replay.setSpeed(speed);
+    let state = createHandPipelineState();
+    const events: GestureEvent[] = [];
+    const clock: number[] = [];
+    for (let now = 1000; replay.getState().playing; now += 1000 / 60) {
+      replay.read(now).forEach(({ t, result }) => {
+        const step = updateHandPipeline(state, result, t);
+        state = step.state;
+        events.push(...step.events);
+        clock.push(t);
+      });
+    }
+    return { events, clock };
+  };
+
+  it.each([0.25, 1, 4])('gives the same gesture edges and timing as runRecording at %sx', speed => {
+    const expected = runRecording(recording).events;
+    const { events, clock } = replayEvents(speed);
+    expect(gestureEdges(events)).toEqual(gestureEdges(expected));
+    // Same spacing on the recording's own time, whatever the playback speed
+    const start = clock[0];
+    expect(events.map(e => e.timestamp - start)).toEqual(expected.map(e => e.timestamp));
+  });
+
+  it('keeps the pipeline clock moving forward across loops and seeks', () => {
+    const replay = new LandmarkReplay(recording, 'fixture');
+    replay.setSpeed(4);
+    const clock: number[] = [];
+    for (let i = 0, now = 0; i < 200; i++, now += 1000 / 60) {
+      if (i === 50) replay.seek(200);
+      replay.read(now).forEach(({ t }) => clock.push(t));
+    }
+    expect(clock.length).toBeGreaterThan(recording.frames.length);
+    clock.slice(1).forEach((t, i) => expect(t).toBeGreaterThan(clock[i]));
+  });
+});
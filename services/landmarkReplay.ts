@@ -0,0 +1,147 @@
+import { GestureEvent, HandFrame, LandmarkRecording, RecordedHandResult, RecordedLandmarkFrame, ReplayState } from '../types';
+import { createHandPipelineState, updateHandPipeline } from './handPipeline';
+
+// Plays a landmark recording in place of the camera. The tracking loop asks for the
+// results the playhead passed each animation frame and feeds them through the same
+// pipeline as live detections. Controls (play, loop, scrub, speed) act immediately.
+//
+// The pipeline's debouncing and filtering run on recording time, not wall time: every
+// recorded frame is delivered, stamped with its own time on a monotonic clock, so a
+// replay at any speed sees the same timing as the recording (and as runRecording).
+// Loops and seeks continue that clock after a short gap instead of running it back.
+
+const NO_HANDS: RecordedHandResult = { landmarks: [], handedness: [] };
+const CUT_GAP_MS = 33; // Clock gap across a loop or seek, about one camera frame
+
+export class LandmarkReplay {
+  private positionMs = 0;
+  private playing = true;
+  private loop = true;
+  private speed = 1;
+  private lastNow: number | null = null;
+  private lastIndex = -1;
+  private clockOffset: number | null = null; // Pipeline time minus recording time
+  private lastClock = 0;
+  private resync = false; // Seeked since the last read
+
+  constructor(readonly recording: LandmarkRecording, readonly name: string) {}
+
+  getState(): ReplayState {
+    return {
+      positionMs: this.positionMs,
+      durationMs: this.recording.durationMs,
+      playing: this.playing,
+      loop: this.loop,
+      speed: this.speed
+    };
+  }
+
+  play() {
+    // Playing from the end starts over
+    if (this.positionMs >= this.recording.durationMs) this.seek(0);
+    this.playing = true;
+  }
+
+  pause() {
+    this.playing = false;
+  }
+
+  setLoop(loop: boolean) {
+    this.loop = loop;
+  }
+
+  setSpeed(speed: number) {
+    if (speed > 0) this.speed = speed;
+  }
+
+  seek(positionMs: number) {
+    this.positionMs = Math.min(Math.max(positionMs, 0), this.recording.durationMs);
+    this.resync = true;
+  }
+
+  // Advances the playhead to `now` (wall time) and returns the recorded frames it passed,
+  // in order and timestamped on the pipeline clock. Empty while paused or between frames.
+  read(now: number): RecordedLandmarkFrame[] {
+    const { durationMs, frames } = this.recording;
+    // The clock starts at the wall time of the first read, so a pipeline carried over
+    // from the camera sees time continue
+    if (this.clockOffset === null) this.clockOffset = now - this.positionMs;
+
+    let wrapped = false;
+    if (this.playing && this.lastNow !== null) {
+      this.positionMs += (now - this.lastNow) * this.speed;
+      if (this.positionMs >= durationMs) {
+        if (this.loop && durationMs > 0) {
+          this.positionMs %= durationMs;
+          wrapped = true;
+        } else {
+          this.positionMs = durationMs;
+          this.playing = false;
+        }
+      }
+    }
+    this.lastNow = now;
+
+    const out: RecordedLandmarkFrame[] = [];
+    const emit = (i: number) => {
+      const t = (i >= 0 ? frames[i].t : 0) + this.clockOffset!;
+      this.lastClock = t;
+      out.push({ t, result: i >= 0 ? frames[i].result : NO_HANDS });
+    };
+    const index = this.frameIndexAt(this.positionMs);
+
+    // A seek jumps straight to the frame under the playhead
+    if (this.resync) {
+      this.resync = false;
+      if (index !== this.lastIndex) {
+        this.clockOffset = this.lastClock + CUT_GAP_MS - (index >= 0 ? frames[index].t : 0);
+        this.lastIndex = index;
+        emit(index);
+      }
+      return out;
+    }
+
+    if (wrapped) {
+      // Finish the pass, then start over with the clock moved past it
+      for (let i = this.lastIndex + 1; i < frames.length; i++) emit(i);
+      this.clockOffset += durationMs + CUT_GAP_MS;
+      this.lastIndex = -1;
+    }
+    for (let i = this.lastIndex + 1; i <= index; i++) emit(i);
+    this.lastIndex = Math.max(this.lastIndex, index);
+    return out;
+  }
+
+  // Last frame at or before the position (binary search; frames are in time order)
+  private frameIndexAt(positionMs: number) {
+    const { frames } = this.recording;
+    let lo = 0;
+    let hi = frames.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (frames[mid].t <= positionMs) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return found;
+  }
+}
+
+// Runs a whole recording through the hand pipeline on its own timestamps, as fast as
+// possible. For fixture tests of gesture edges and the events that switch bodies.
+export const runRecording = (recording: LandmarkRecording): { events: GestureEvent[], frames: HandFrame[] } => {
+  let state = createHandPipelineState();
+  const events: GestureEvent[] = [];
+  const frames: HandFrame[] = [];
+  recording.frames.forEach(({ t, result }) => {
+    const step = updateHandPipeline(state, result, t);
+    state = step.state;
+    events.push(...step.events);
+    frames.push(step.frame);
+  });
+  return { events, frames };
+};
@@ -0,0 +1,127 @@
+import { FilesetResolver, HandLandmarker, HandLandmarkerOptions } from '@mediapipe/tasks-vision';
+import { MediaPipeAssetSourceName } from '../types';
+
+// Resolves the MediaPipe WASM runtime and hand model, preferring the copies bundled
+// into the build (see vite-plugins/mediapipeAssets.ts) and falling back to the CDN.
+
+export const MEDIAPIPE_VERSION = __MEDIAPIPE_VERSION__;
+
+// What the bundled runtime files must be, taken from the npm package at build time
+const MEDIAPIPE_FILES = __MEDIAPIPE_FILES__;
+
+export interface MediaPipeAssetSource {
+  name: MediaPipeAssetSourceName;
+  wasmBaseUrl: string;
+  modelUrl: string;
+  manifestUrl?: string; // Bundled assets carry a manifest and have their files checked
+}
+
+export const MEDIAPIPE_SOURCES: Record<MediaPipeAssetSourceName, MediaPipeAssetSource> = {
+  local: {
+    name: 'local',
+    wasmBaseUrl: '/mediapipe/wasm',
+    modelUrl: '/mediapipe/hand_landmarker.task',
+    manifestUrl: '/mediapipe/manifest.json'
+  },
+  cdn: {
+    name: 'cdn',
+    // Pinned to the installed package so JS bindings and WASM always match
+    wasmBaseUrl: `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${MEDIAPIPE_VERSION}/wasm`,
+    modelUrl: 'https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task'
+  }
+};
+
+export interface MediaPipeAssetFailure {
+  source: MediaPipeAssetSourceName;
+  reason: string;
+}
+
+export class MediaPipeAssetError extends Error {
+  constructor(public failures: MediaPipeAssetFailure[]) {
+    super(
+      failures.length > 0
+        ? `No hand tracking assets could be loaded (${failures.map(f => `${f.source}: ${f.reason}`).join('; ')})`
+        : 'No hand tracking asset sources are configured'
+    );
+    this.name = 'MediaPipeAssetError';
+  }
+}
+
+// The dev server answers unknown paths with index.html, so a 200 alone proves nothing
+export const isRealAsset = (response: Response) =>
+  response.ok && !(response.headers.get('content-type') || '').includes('text/html');
+
+const sha256 = async (data: ArrayBuffer) =>
+  Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', data)), b => b.toString(16).padStart(2, '0')).join('');
+
+// Compares one served runtime file with the npm package's. The JS loaders are small and
+// hashed; the multi-megabyte .wasm files are compared by size to avoid a second download.
+const verifyFile = async (baseUrl: string, name: string, expected: { size: number, sha256: string }) => {
+  const url = `${baseUrl}/${name}`;
+
+  if (name.endsWith('.wasm')) {
+    const head = await fetch(url, { method: 'HEAD' });
+    if (!isRealAsset(head)) throw new Error(`${name} not found`);
+    // A compressed response's length says nothing about the file
+    const length = head.headers.get('content-encoding') ? null : head.headers.get('content-length');
+    if (length !== null && Number(length) !== expected.size) {
+      throw new Error(`${name} is ${length} bytes, expected ${expected.size}`);
+    }
+    return;
+  }
+
+  const response = await fetch(url);
+  if (!isRealAsset(response)) throw new Error(`${name} not found`);
+  const data = await response.arrayBuffer();
+  // SubtleCrypto only exists in secure contexts; kiosks on plain http get the size check
+  const matches = crypto.subtle ? await sha256(data) === expected.sha256 : data.byteLength === expected.size;
+  if (!matches) {
+    throw new Error(`${name} does not match @mediapipe/tasks-vision ${MEDIAPIPE_VERSION}`);
+  }
+};
+
+// Checks that a source's files exist and that bundled WASM matches the npm package
+const verifySource = async (source: MediaPipeAssetSource) => {
+  if (source.manifestUrl) {
+    const response = await fetch(source.manifestUrl);
+    if (!isRealAsset(response)) throw new Error('WASM manifest not found');
+
+    // The manifest names the version that was copied, for a readable error
+    const manifest = await response.json() as { version?: string };
+    if (manifest.version !== MEDIAPIPE_VERSION) {
+      throw new Error(`WASM version ${manifest.version ?? 'unknown'} does not match @mediapipe/tasks-vision ${MEDIAPIPE_VERSION}`);
+    }
+    // ...but only the files themselves prove what is served
+    await Promise.all(Object.entries(MEDIAPIPE_FILES).map(([name, expected]) => verifyFile(source.wasmBaseUrl, name, expected)));
+  }
+
+  const model = await fetch(source.modelUrl, { method: 'HEAD' });
+  if (!isRealAsset(model)) throw new Error(`model not found at ${source.modelUrl}`);
+};
+
+// Tries each source in order and returns the first landmarker that loads
+export const createHandLandmarker = async (
+  options: HandLandmarkerOptions,
+  sources: MediaPipeAssetSourceName[]
+): Promise<{ landmarker: HandLandmarker, source: MediaPipeAssetSourceName }> => {
+  const failures: MediaPipeAssetFailure[] = [];
+
+  for (const name of sources) {
+    const source = MEDIAPIPE_SOURCES[name];
+    try {
+      await verifySource(source);
+      const vision = await FilesetResolver.forVisionTasks(source.wasmBaseUrl);
+      const landmarker = await HandLandmarker.createFromOptions(vision, {
+        ...options,
+        baseOptions: { ...options.baseOptions, modelAssetPath: source.modelUrl }
+      });
+      return { landmarker, source: name };
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      console.warn(`MediaPipe assets from '${name}' failed to load:`, reason);
+      failures.push({ source: name, reason });
+    }
+  }
+
+  throw new MediaPipeAssetError(failures);
+};
@@ -0,0 +1,134 @@
+import { NarrationSettings } from '../types';
+import { audioService } from './audioService';
+import { loadNarrationSettings, saveNarrationSettings } from './audioPreferences';
+import { APP_CONFIG } from '../config';
+
+// Reads phrases and body facts aloud through the Web Speech API, for visitors who
+// can't read the screen from where they are. One utterance at a time: a new body's
+// introduction cuts off whatever is being said, and a new phrase cuts off the previous
+// phrase but waits for an introduction to finish (the tour changes both at once).
+// The music is ducked while speaking.
+
+// What is being read, which decides what may interrupt it
+export type NarrationKind = 'phrase' | 'body';
+
+// A phrase cut off by an introduction this soon after it started is read again afterwards
+// (the phrase and the new body can arrive in either order)
+const REQUEUE_WINDOW_MS = 1000;
+
+type VoicesListener = (voices: SpeechSynthesisVoice[]) => void;
+
+const getSynth = () => (typeof window !== 'undefined' && 'speechSynthesis' in window ? window.speechSynthesis : null);
+
+// Android reports "en_US"
+const normalizeLang = (lang: string) => lang.replace('_', '-').toLowerCase();
+const primaryLang = (lang: string) => normalizeLang(lang).split('-')[0];
+
+export class Narrator {
+  private synth = getSynth();
+  private settings: NarrationSettings = loadNarrationSettings();
+  private current: { utterance: SpeechSynthesisUtterance, kind: NarrationKind, text: string, startedAt: number } | null = null;
+  private pendingPhrase: string | null = null; // Waiting for an introduction to end
+  private voices: SpeechSynthesisVoice[] = [];
+  private listeners = new Set<VoicesListener>();
+
+  constructor() {
+    if (APP_CONFIG.narrate) this.settings = { ...this.settings, enabled: true };
+    if (!this.synth) return;
+
+    // Voices load asynchronously in most browsers
+    this.voices = this.synth.getVoices();
+    this.synth.addEventListener('voiceschanged', () => {
+      this.voices = this.synth!.getVoices();
+      this.listeners.forEach(listener => listener(this.voices));
+    });
+  }
+
+  get supported() {
+    return Boolean(this.synth);
+  }
+
+  getSettings(): NarrationSettings {
+    return { ...this.settings };
+  }
+
+  update(changes: Partial<NarrationSettings>) {
+    this.settings = { ...this.settings, ...changes };
+    saveNarrationSettings(this.settings);
+    if (!this.settings.enabled) this.cancel();
+  }
+
+  getVoices() {
+    return this.voices;
+  }
+
+  subscribeVoices(listener: VoicesListener) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // Languages the installed voices speak, for the language picker
+  getLanguages() {
+    return Array.from(new Set(this.voices.map(v => v.lang.replace('_', '-')))).sort();
+  }
+
+  // Voices for the chosen language (or the browser's), exact region first: "en-GB" also
+  // offers the other English voices after the British ones
+  getVoicesForLanguage(lang: string | null = this.settings.lang) {
+    const wanted = normalizeLang(lang ?? navigator.language);
+    const exact = (v: SpeechSynthesisVoice) => (normalizeLang(v.lang) === wanted ? 0 : 1);
+    return this.voices
+      .filter(v => primaryLang(v.lang) === primaryLang(wanted))
+      .sort((a, b) => exact(a) - exact(b));
+  }
+
+  speak(text: string, kind: NarrationKind = 'phrase') {
+    if (!this.synth || !this.settings.enabled || audioService.isMuted() || !text.trim()) return;
+    if (kind === 'phrase' && this.current?.kind === 'body') {
+      this.pendingPhrase = text;
+      return;
+    }
+    const requeue = kind === 'body' && this.current?.kind === 'phrase' && performance.now() - this.current.startedAt < REQUEUE_WINDOW_MS
+      ? this.current.text
+      : null;
+    this.cancel();
+    this.pendingPhrase = requeue;
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    const { lang, voiceURI, rate } = this.settings;
+    const voice = (voiceURI && this.voices.find(v => v.voiceURI === voiceURI)) || this.getVoicesForLanguage()[0];
+    if (voice) utterance.voice = voice;
+    utterance.lang = voice?.lang ?? lang ?? navigator.language;
+    utterance.rate = rate;
+
+    // A cancelled utterance still reports its end, possibly after the next one started
+    const finish = () => {
+      if (this.current?.utterance !== utterance) return;
+      this.current = null;
+      const next = this.pendingPhrase;
+      this.pendingPhrase = null;
+      audioService.setMusicDucked(false);
+      if (next) this.speak(next);
+    };
+    utterance.onend = finish;
+    utterance.onerror = (e) => {
+      if (e.error !== 'interrupted' && e.error !== 'canceled') console.warn("Narration failed:", e.error);
+      finish();
+    };
+
+    this.current = { utterance, kind, text, startedAt: performance.now() };
+    audioService.setMusicDucked(true);
+    this.synth.speak(utterance);
+  }
+
+  cancel() {
+    if (!this.synth) return;
+    const wasSpeaking = this.current !== null;
+    this.current = null;
+    this.pendingPhrase = null;
+    this.synth.cancel();
+    if (wasSpeaking) audioService.setMusicDucked(false);
+  }
+}
+
+export const narrator = new Narrator();
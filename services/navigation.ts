@@ -0,0 +1,35 @@
+import { CelestialBodyConfig, CelestialCatalog, TourStop } from '../types';
+import { Random } from '../generation/random';
+
+// Which body comes next: tour order for next/previous and the guided tour, or a
+// random other body. Tour stops are validated against the catalog when it loads.
+
+export const getTour = (catalog: CelestialCatalog): TourStop[] =>
+  catalog.tour && catalog.tour.length > 0 ? catalog.tour : catalog.bodies.map(body => ({ body: body.name }));
+
+// Every body, tour stops first, for the carousel and the number keys
+export const getNavigationOrder = (catalog: CelestialCatalog): CelestialBodyConfig[] => {
+  const stops = getTour(catalog)
+    .map(stop => catalog.bodies.find(body => body.name === stop.body))
+    .filter((body): body is CelestialBodyConfig => body !== undefined);
+  return [...stops, ...catalog.bodies.filter(body => !stops.includes(body))];
+};
+
+// Next or previous tour stop, wrapping around. Off the tour, next starts at the first stop.
+export const stepTour = (catalog: CelestialCatalog, current: CelestialBodyConfig, direction: 1 | -1): CelestialBodyConfig => {
+  const tour = getTour(catalog);
+  const index = tour.findIndex(stop => stop.body === current.name);
+  const next = index < 0
+    ? (direction > 0 ? 0 : tour.length - 1)
+    : (index + direction + tour.length) % tour.length;
+  return catalog.bodies.find(body => body.name === tour[next].body) ?? current;
+};
+
+export const getDwellMs = (catalog: CelestialCatalog, current: CelestialBodyConfig, defaultDwellMs: number) =>
+  getTour(catalog).find(stop => stop.body === current.name)?.dwellMs ?? defaultDwellMs;
+
+// Any body but the current one; a single-body catalog stays put
+export const pickRandomBody = (bodies: CelestialBodyConfig[], current: CelestialBodyConfig, random: Random) => {
+  const others = bodies.filter(body => body.name !== current.name);
+  return others.length > 0 ? others[Math.floor(random() * others.length)] : current;
+};
@@ -0,0 +1,143 @@
+import { PerformanceStats, QualityPreset, QualitySettings, QualityTier } from '../types';
+import { APP_CONFIG } from '../config';
+
+// Measures frame and hand-inference time and, under the 'auto' preset, steps the
+// quality tier down when the frame rate stays below target and back up after a
+// long stretch at target. Hand detection runs on the main thread, so when it takes
+// too long the detection interval is raised as well. Manual presets pin the tier.
+
+export const QUALITY_TIERS: Record<QualityTier, QualitySettings> = {
+  low: { particleCount: 16000, starCount: 1000, pixelRatio: 1, detectionIntervalMs: 100 },
+  medium: { particleCount: 32000, starCount: 2500, pixelRatio: 1.5, detectionIntervalMs: 50 },
+  high: { particleCount: 64000, starCount: 5000, pixelRatio: 2, detectionIntervalMs: 0 }
+};
+
+const TIER_ORDER: QualityTier[] = ['low', 'medium', 'high'];
+
+const SMOOTHING = 0.05; // EMA weight of each new sample
+const DOWNGRADE_AFTER_MS = 2000; // Sustained time below target before stepping down
+const UPGRADE_AFTER_MS = 10000; // Sustained time at target before trying a step up
+const SETTLE_MS = 1500; // Ignore frames right after a change (regeneration, shader upload)
+const UPGRADE_BACKOFF_MS = 30000; // A tier that failed is not retried before this, doubling each time
+const MAX_FRAME_MS = 250; // Longer frames (tab in background) are not samples
+const INFERENCE_SHARE = 0.3; // Most of the main thread's time hand detection may take
+const INFERENCE_STEP_MS = 10; // Detection interval granularity, so it doesn't change every sample
+const MAX_DETECTION_INTERVAL_MS = 200; // Hands stay usable; beyond this the tier has to drop
+
+type SettingsListener = (settings: QualitySettings) => void;
+
+export class PerformanceGovernor {
+  private tier: QualityTier;
+  private frameMs: number;
+  private inferenceMs = 0;
+  private inferenceIntervalMs = 0; // Detection interval needed for the measured inference time
+  private belowSince: number | null = null;
+  private aboveSince: number | null = null;
+  private settleUntil = 0;
+  private blockedTier: QualityTier | null = null;
+  private blockedUntil = 0;
+  private backoffMs = UPGRADE_BACKOFF_MS;
+  private listeners = new Set<SettingsListener>();
+
+  constructor(private preset: QualityPreset, private targetFps: number) {
+    // Auto starts at the top and steps down until the frame rate holds
+    this.tier = preset === 'auto' ? 'high' : preset;
+    this.frameMs = 1000 / targetFps;
+  }
+
+  // The tier's settings, with detection slowed down further if inference is slow
+  get settings(): QualitySettings {
+    const tier = QUALITY_TIERS[this.tier];
+    return { ...tier, detectionIntervalMs: Math.max(tier.detectionIntervalMs, this.inferenceIntervalMs) };
+  }
+
+  subscribe(listener: SettingsListener) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  setPreset(preset: QualityPreset) {
+    this.preset = preset;
+    this.backoffMs = UPGRADE_BACKOFF_MS;
+    this.blockedTier = null;
+    if (preset === 'auto') return;
+    this.inferenceIntervalMs = 0;
+    if (this.tier === preset) this.notify();
+    else this.setTier(preset, performance.now());
+  }
+
+  recordInference(ms: number) {
+    this.inferenceMs += (ms - this.inferenceMs) * SMOOTHING;
+  }
+
+  recordFrame(deltaMs: number, now: number) {
+    if (deltaMs <= 0 || deltaMs > MAX_FRAME_MS) return;
+    this.frameMs += (deltaMs - this.frameMs) * SMOOTHING;
+
+    if (this.preset !== 'auto' || now < this.settleUntil) return;
+    this.updateInferenceInterval();
+
+    const fps = 1000 / this.frameMs;
+    const index = TIER_ORDER.indexOf(this.tier);
+
+    if (fps < this.targetFps * 0.85) {
+      this.aboveSince = null;
+      this.belowSince ??= now;
+      if (now - this.belowSince > DOWNGRADE_AFTER_MS && index > 0) {
+        // Don't bounce straight back into the tier that just failed
+        this.blockedTier = this.tier;
+        this.blockedUntil = now + this.backoffMs;
+        this.backoffMs *= 2;
+        this.setTier(TIER_ORDER[index - 1], now);
+      }
+    } else if (fps >= this.targetFps * 0.95) {
+      this.belowSince = null;
+      this.aboveSince ??= now;
+      const next = TIER_ORDER[index + 1];
+      const blocked = next === this.blockedTier && now < this.blockedUntil;
+      if (next && !blocked && now - this.aboveSince > UPGRADE_AFTER_MS) {
+        this.setTier(next, now);
+      }
+    } else {
+      this.belowSince = null;
+      this.aboveSince = null;
+    }
+  }
+
+  getStats(): PerformanceStats {
+    return {
+      fps: 1000 / this.frameMs,
+      frameMs: this.frameMs,
+      inferenceMs: this.inferenceMs,
+      preset: this.preset,
+      tier: this.tier
+    };
+  }
+
+  // Spaces detections so they take at most INFERENCE_SHARE of the time, leaving the
+  // rest for rendering
+  private updateInferenceInterval() {
+    const needed = Math.ceil(this.inferenceMs / INFERENCE_SHARE / INFERENCE_STEP_MS) * INFERENCE_STEP_MS;
+    const interval = Math.min(needed, MAX_DETECTION_INTERVAL_MS);
+    if (interval === this.inferenceIntervalMs) return;
+    const before = this.settings.detectionIntervalMs;
+    this.inferenceIntervalMs = interval;
+    if (this.settings.detectionIntervalMs !== before) this.notify();
+  }
+
+  private setTier(tier: QualityTier, now: number) {
+    this.belowSince = null;
+    this.aboveSince = null;
+    this.settleUntil = now + SETTLE_MS;
+    if (tier === this.tier) return;
+    this.tier = tier;
+    this.notify();
+  }
+
+  private notify() {
+    const settings = this.settings;
+    this.listeners.forEach(listener => listener(settings));
+  }
+}
+
+export const performanceGovernor = new PerformanceGovernor(APP_CONFIG.quality.preset, APP_CONFIG.quality.targetFps);
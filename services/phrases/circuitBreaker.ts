@@ -0,0 +1,72 @@
+import { PhraseFailureKind } from '../../types';
+import { PhraseProviderError } from './providerError';
+
+// Exponential backoff with a circuit breaker for phrase requests.
+// Every failure pushes the next allowed attempt further out; after enough
+// consecutive failures the circuit is reported as open until a request succeeds.
+
+export interface CircuitBreakerOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  failureThreshold: number; // Consecutive failures before the circuit opens
+}
+
+export interface CircuitBreakerState {
+  failures: number; // Consecutive failures
+  retryAt: number; // Epoch ms before which no request is made
+  lastFailure: PhraseFailureKind | null;
+}
+
+const DEFAULT_OPTIONS: CircuitBreakerOptions = {
+  baseDelayMs: 5000,
+  maxDelayMs: 30 * 60 * 1000,
+  failureThreshold: 3
+};
+
+export const createCircuitBreakerState = (): CircuitBreakerState => ({
+  failures: 0,
+  retryAt: 0,
+  lastFailure: null
+});
+
+export class CircuitBreaker {
+  constructor(
+    private state: CircuitBreakerState = createCircuitBreakerState(),
+    private options: CircuitBreakerOptions = DEFAULT_OPTIONS
+  ) {}
+
+  get snapshot(): CircuitBreakerState {
+    return { ...this.state };
+  }
+
+  get isOpen() {
+    return this.state.failures >= this.options.failureThreshold;
+  }
+
+  get lastFailure() {
+    return this.state.lastFailure;
+  }
+
+  // Missing keys or endpoints won't fix themselves; stop asking for this session
+  get isDisabled() {
+    return this.state.lastFailure === 'not-configured';
+  }
+
+  canRequest(now: number = Date.now()) {
+    return !this.isDisabled && now >= this.state.retryAt;
+  }
+
+  recordSuccess() {
+    this.state = createCircuitBreakerState();
+  }
+
+  recordFailure(error: PhraseProviderError, now: number = Date.now()) {
+    const failures = this.state.failures + 1;
+    const exponential = Math.min(this.options.baseDelayMs * Math.pow(2, failures - 1), this.options.maxDelayMs);
+    // +/-20% jitter so several kiosks don't retry in lockstep
+    const jittered = exponential * (0.8 + Math.random() * 0.4);
+    const delay = Math.max(jittered, error.retryAfterMs ?? 0);
+
+    this.state = { failures, retryAt: now + delay, lastFailure: error.kind };
+  }
+}
@@ -0,0 +1,42 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { PhraseContext, PhraseProvider } from "../../types";
+import { buildPhrasePrompt, parsePhraseText } from "./prompt";
+import { PhraseProviderError } from "./providerError";
+
+export class GeminiPhraseProvider implements PhraseProvider {
+  readonly name = 'gemini' as const;
+  private ai: GoogleGenAI | null = null;
+
+  constructor(private apiKey: string, private model: string = 'gemini-2.5-flash') {}
+
+  // Client is created on first use so a missing key doesn't break app startup
+  private getClient() {
+    if (!this.apiKey) throw new PhraseProviderError("GEMINI_API_KEY is not set", 'not-configured');
+    if (!this.ai) this.ai = new GoogleGenAI({ apiKey: this.apiKey });
+    return this.ai;
+  }
+
+  async generatePhrases(count: number, context?: PhraseContext): Promise<string[]> {
+    const response = await this.getClient().models.generateContent({
+      model: this.model,
+      contents: buildPhrasePrompt(count, context),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            phrases: {
+              type: Type.ARRAY,
+              items: { type: Type.STRING }
+            }
+          }
+        }
+      }
+    });
+
+    const jsonText = response.text;
+    if (!jsonText) throw new PhraseProviderError("Gemini returned an empty response", 'invalid-response');
+    
+    return parsePhraseText(jsonText);
+  }
+}
@@ -0,0 +1,27 @@
+import { PhraseProvider, PhraseProviderConfig } from '../../types';
+import { APP_CONFIG } from '../../config';
+import { GeminiPhraseProvider } from './geminiProvider';
+import { OpenAiPhraseProvider } from './openAiProvider';
+import { StaticPhraseProvider } from './staticProvider';
+import { MockPhraseProvider } from './mockProvider';
+import { PhraseQueue } from './phraseQueue';
+
+export { PhraseQueue, FALLBACK_PHRASES } from './phraseQueue';
+export { PhraseStore } from './phraseStore';
+export { PhraseProviderError } from './providerError';
+
+export const createPhraseProvider = (config: PhraseProviderConfig): PhraseProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAiPhraseProvider(config.openAiBaseUrl, config.openAiModel, config.openAiApiKey);
+    case 'static':
+      return new StaticPhraseProvider(config.staticUrl);
+    case 'mock':
+      return new MockPhraseProvider();
+    case 'gemini':
+    default:
+      return new GeminiPhraseProvider(config.geminiApiKey);
+  }
+};
+
+export const phraseQueue = new PhraseQueue(createPhraseProvider(APP_CONFIG.phrases));
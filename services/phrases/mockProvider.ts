@@ -0,0 +1,26 @@
+import { PhraseContext, PhraseProvider } from '../../types';
+
+const MOCK_PHRASES = [
+  "Mock phrase one drifts by.",
+  "Mock phrase two orbits slowly.",
+  "Mock phrase three fades to light."
+];
+
+// Deterministic provider for tests and offline development: cycles through a fixed list,
+// tagging each phrase with the body it was requested for
+export class MockPhraseProvider implements PhraseProvider {
+  readonly name = 'mock' as const;
+  private cursor = 0;
+
+  constructor(private phrases: string[] = MOCK_PHRASES) {}
+
+  async generatePhrases(count: number, context?: PhraseContext): Promise<string[]> {
+    const result: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const phrase = this.phrases[this.cursor % this.phrases.length];
+      result.push(context ? `${phrase} (${context.body.name})` : phrase);
+      this.cursor++;
+    }
+    return result;
+  }
+}
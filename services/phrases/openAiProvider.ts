@@ -0,0 +1,47 @@
+import { PhraseContext, PhraseProvider } from '../../types';
+import { buildPhrasePrompt, parsePhraseText } from './prompt';
+import { failureKindForStatus, parseRetryAfter, PhraseProviderError } from './providerError';
+
+// Any server speaking the OpenAI chat completions API (OpenAI, llama.cpp, Ollama, LM Studio, ...)
+export class OpenAiPhraseProvider implements PhraseProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    private baseUrl: string,
+    private model: string,
+    private apiKey?: string
+  ) {}
+
+  async generatePhrases(count: number, context?: PhraseContext): Promise<string[]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [
+          { role: 'system', content: 'Reply only with JSON of the form {"phrases": ["..."]}.' },
+          { role: 'user', content: buildPhrasePrompt(count, context) }
+        ],
+        temperature: 0.9
+      })
+    });
+
+    if (!response.ok) {
+      throw new PhraseProviderError(
+        `Phrase endpoint returned ${response.status}`,
+        failureKindForStatus(response.status),
+        response.status,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+
+    const data = await response.json();
+    const content: unknown = data?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string' || !content) throw new PhraseProviderError('Phrase endpoint returned no content', 'invalid-response');
+
+    return parsePhraseText(content);
+  }
+}
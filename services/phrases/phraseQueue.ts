@@ -0,0 +1,134 @@
+import { PhraseContext, PhraseFallbackReason, PhraseProvider, PhraseResult } from '../../types';
+import { CircuitBreaker } from './circuitBreaker';
+import { PhraseStore } from './phraseStore';
+import { toProviderError } from './providerError';
+
+// Used whenever the provider fails (API error, quota, missing key, ...)
+export const FALLBACK_PHRASES = [
+  "In the silence of space, we find our rhythm.",
+  "Every atom in you came from a star that exploded.",
+  "Gravity is just the universe hugging you.",
+  "Look up, and get lost in the dark.",
+  "We are the universe experiencing itself."
+];
+
+export interface PhraseQueueOptions {
+  batchSize: number; // Phrases requested per background refill
+  urgentBatchSize: number; // Smaller request when the queue ran dry and the user is waiting
+  lowWaterMark: number; // Refill in the background once fewer than this remain
+  minRequestIntervalMs: number; // Background refills closer together than this are skipped
+}
+
+const DEFAULT_QUEUE_OPTIONS: PhraseQueueOptions = {
+  batchSize: 5,
+  urgentBatchSize: 3,
+  lowWaterMark: 3,
+  minRequestIntervalMs: 2000
+};
+
+// Phrases are buffered per body, so switching bodies never shows text written for another one
+const GENERAL_KEY = '*';
+const keyFor = (context?: PhraseContext) => context?.body.name ?? GENERAL_KEY;
+
+// Provider-agnostic phrase buffer: serves phrases in order and keeps itself topped up.
+// Buffers and shown history are persisted, duplicates are filtered out, and failing
+// providers are backed off instead of being retried on every gesture.
+export class PhraseQueue {
+  private refilling = new Map<string, Promise<void>>();
+  private breaker: CircuitBreaker;
+  private lastRequestAt = 0;
+
+  constructor(
+    private provider: PhraseProvider,
+    private store: PhraseStore = new PhraseStore(),
+    private options: PhraseQueueOptions = DEFAULT_QUEUE_OPTIONS
+  ) {
+    this.breaker = new CircuitBreaker(store.breakerState);
+  }
+
+  size(context?: PhraseContext) {
+    return this.store.queue(keyFor(context)).length;
+  }
+
+  prefill(context?: PhraseContext) {
+    if (this.size(context) >= this.options.lowWaterMark) return Promise.resolve();
+    return this.refill(this.options.batchSize, context, false);
+  }
+
+  // Next phrase to show. Only waits on the provider when nothing is buffered.
+  async next(context?: PhraseContext): Promise<PhraseResult> {
+    const queue = this.store.queue(keyFor(context));
+    if (queue.length === 0) {
+      await this.refill(this.options.urgentBatchSize, context, true);
+    }
+
+    const text = queue.shift();
+
+    if (queue.length < this.options.lowWaterMark) {
+      this.refill(this.options.batchSize, context, false);
+    }
+
+    if (!text) return this.fallback();
+
+    this.store.markShown(text);
+    return { text, source: 'provider' };
+  }
+
+  private fallbackReason(): PhraseFallbackReason {
+    if (this.breaker.isOpen) return 'circuit-open';
+    // No recorded failure means the provider only returned phrases we had already shown
+    return this.breaker.lastFailure ?? 'exhausted';
+  }
+
+  private leastRecentlyShown(phrases: string[]) {
+    return phrases.reduce((oldest, phrase) =>
+      (this.store.lastShown(phrase) ?? 0) < (this.store.lastShown(oldest) ?? 0) ? phrase : oldest
+    );
+  }
+
+  private fallback(): PhraseResult {
+    const fallbackReason = this.fallbackReason();
+    const text = this.leastRecentlyShown(FALLBACK_PHRASES);
+    console.warn(`Serving fallback phrase (${fallbackReason})`);
+
+    this.store.markShown(text);
+    return { text, source: 'fallback', fallbackReason };
+  }
+
+  // Single in-flight request per body; concurrent callers share it.
+  // Urgent refills (user is waiting) skip the burst guard but never the backoff.
+  private refill(count: number, context: PhraseContext | undefined, urgent: boolean) {
+    const key = keyFor(context);
+    const pending = this.refilling.get(key);
+    if (pending) return pending;
+
+    const now = Date.now();
+    if (!this.breaker.canRequest(now)) return Promise.resolve();
+    if (!urgent && now - this.lastRequestAt < this.options.minRequestIntervalMs) return Promise.resolve();
+    this.lastRequestAt = now;
+
+    const queue = this.store.queue(key);
+    const request = this.provider.generatePhrases(count, context)
+      .then(phrases => {
+        this.breaker.recordSuccess();
+        const fresh = this.store.filterNew(phrases);
+        if (fresh.length === 0 && phrases.length > 0) {
+          // Provider only repeats itself (e.g. a small static file): reuse the stalest phrase
+          fresh.push(this.leastRecentlyShown(phrases));
+        }
+        queue.push(...fresh);
+      })
+      .catch(error => {
+        const providerError = toProviderError(error);
+        this.breaker.recordFailure(providerError);
+        console.error(`Failed to generate phrases (${this.provider.name}, ${providerError.kind}):`, error);
+      })
+      .finally(() => {
+        this.refilling.delete(key);
+        this.store.saveBreaker(this.breaker.snapshot);
+      });
+
+    this.refilling.set(key, request);
+    return request;
+  }
+}
@@ -0,0 +1,114 @@
+import { CircuitBreakerState, createCircuitBreakerState } from './circuitBreaker';
+
+// Persists buffered phrases, the history of shown phrases and the backoff state
+// in localStorage, so reloads don't re-query the API or repeat themselves.
+
+const STORAGE_KEY = 'nebula-hand.phrases.v1';
+const MAX_SHOWN = 1000; // Roughly a full day of kiosk use
+
+interface PersistedPhrases {
+  queues: Record<string, string[]>;
+  shown: { key: string, at: number }[]; // Normalized phrase + when it was shown, oldest first
+  breaker: CircuitBreakerState;
+}
+
+// Minimal Storage surface, so the store can run against an in-memory map
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+// Case, punctuation and whitespace insensitive form used for dedup
+export const normalizePhrase = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+
+const getDefaultStorage = (): KeyValueStorage | null => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    // Access can throw in sandboxed iframes / privacy modes
+    return null;
+  }
+};
+
+export class PhraseStore {
+  private data: PersistedPhrases;
+  private shownAt = new Map<string, number>();
+
+  constructor(private storage: KeyValueStorage | null = getDefaultStorage()) {
+    this.data = this.load();
+    this.data.shown.forEach(entry => this.shownAt.set(entry.key, entry.at));
+  }
+
+  get breakerState() {
+    return this.data.breaker;
+  }
+
+  queue(key: string) {
+    if (!this.data.queues[key]) this.data.queues[key] = [];
+    return this.data.queues[key];
+  }
+
+  // When this phrase was last shown, if ever
+  lastShown(text: string) {
+    return this.shownAt.get(normalizePhrase(text));
+  }
+
+  // Drops phrases that were already shown or are already buffered anywhere
+  filterNew(phrases: string[]) {
+    const seen = new Set<string>(Object.values(this.data.queues).flat().map(normalizePhrase));
+    return phrases.filter(phrase => {
+      const key = normalizePhrase(phrase);
+      if (!key || seen.has(key) || this.shownAt.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  markShown(text: string, at: number = Date.now()) {
+    const key = normalizePhrase(text);
+    this.data.shown = this.data.shown.filter(entry => entry.key !== key);
+    this.data.shown.push({ key, at });
+    this.shownAt.set(key, at);
+
+    if (this.data.shown.length > MAX_SHOWN) {
+      this.data.shown.splice(0, this.data.shown.length - MAX_SHOWN).forEach(entry => this.shownAt.delete(entry.key));
+    }
+    this.save();
+  }
+
+  saveBreaker(state: CircuitBreakerState) {
+    this.data.breaker = state;
+    this.save();
+  }
+
+  save() {
+    if (!this.storage) return;
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(this.data));
+    } catch (e) {
+      console.warn("Could not persist phrase cache:", e);
+    }
+  }
+
+  private load(): PersistedPhrases {
+    const empty: PersistedPhrases = { queues: {}, shown: [], breaker: createCircuitBreakerState() };
+    if (!this.storage) return empty;
+
+    try {
+      const raw = this.storage.getItem(STORAGE_KEY);
+      if (!raw) return empty;
+      const parsed = JSON.parse(raw) as Partial<PersistedPhrases>;
+      const breaker = { ...empty.breaker, ...parsed.breaker };
+      return {
+        queues: parsed.queues ?? {},
+        shown: Array.isArray(parsed.shown) ? parsed.shown : [],
+        // A missing key may have been configured since; give it a fresh chance
+        breaker: breaker.lastFailure === 'not-configured' ? empty.breaker : breaker
+      };
+    } catch (e) {
+      console.warn("Ignoring corrupt phrase cache:", e);
+      return empty;
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { CelestialBodyConfig, PhraseContext, PhraseResponse } from '../../types';
+
+// How many recent interactions are summarized in the prompt
+const HISTORY_WINDOW = 8;
+
+const describeBody = (body: CelestialBodyConfig) => {
+  if (body.type === 'star') return `${body.name}, the star at the heart of the solar system`;
+  const rings = body.hasRings ? ' with rings' : '';
+  return `${body.name}, a ${body.type}${rings}`;
+};
+
+const describeHistory = (context: PhraseContext) => {
+  const recent = context.history.slice(-HISTORY_WINDOW);
+  const visited = Array.from(new Set(
+    recent.filter(i => i.type === 'focus' && i.body !== context.body.name).map(i => i.body)
+  ));
+  if (visited.length === 0) return '';
+  return `Earlier in this session they explored ${visited.join(', ')}; you may gently echo that journey.\n      `;
+};
+
+// Prompt shared by the LLM-backed providers
+export const buildPhrasePrompt = (count: number, context?: PhraseContext) => {
+  if (!context) {
+    return `Generate ${count} short, unique, warm, and poetic phrases about the universe, stardust, connection, time, or love. 
+      Keep them under 12 words each. They should feel ethereal and inspiring.
+      Do not number them.`;
+  }
+
+  const fact = context.includeFact
+    ? `Make exactly one of them a true, verifiable fact about ${context.body.name}, under 15 words.\n      `
+    : '';
+
+  return `A visitor is contemplating ${describeBody(context.body)}.
+      ${describeHistory(context)}Generate ${count} short, unique, warm, and poetic phrases inspired by ${context.body.name}, stardust, connection, time, or love. 
+      Keep them under 12 words each. They should feel ethereal and inspiring.
+      ${fact}Do not number them.`;
+};
+
+// Accepts `{ "phrases": [...] }`, a bare JSON array, or one phrase per line
+export const parsePhraseText = (text: string): string[] => {
+  const trimmed = text.trim();
+  try {
+    const data = JSON.parse(trimmed) as PhraseResponse | string[];
+    const phrases = Array.isArray(data) ? data : data.phrases;
+    if (Array.isArray(phrases)) {
+      return phrases.filter((p): p is string => typeof p === 'string' && p.trim().length > 0).map(p => p.trim());
+    }
+  } catch {
+    // Not JSON, fall through to line splitting
+  }
+
+  return trimmed
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').replace(/^"|"$/g, '').trim())
+    .filter(line => line.length > 0);
+};
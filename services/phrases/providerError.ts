@@ -0,0 +1,47 @@
+import { PhraseFailureKind } from '../../types';
+
+// Error thrown by phrase providers. The queue uses `kind` to decide how long to back off.
+export class PhraseProviderError extends Error {
+  constructor(
+    message: string,
+    public kind: PhraseFailureKind,
+    public status?: number,
+    public retryAfterMs?: number // Server-provided hint (Retry-After)
+  ) {
+    super(message);
+    this.name = 'PhraseProviderError';
+  }
+}
+
+export const failureKindForStatus = (status: number): PhraseFailureKind => {
+  if (status === 429) return 'rate-limited';
+  if (status >= 500) return 'server-error';
+  if (status === 401 || status === 403) return 'not-configured';
+  return 'client-error';
+};
+
+// Retry-After is either seconds or an HTTP date
+export const parseRetryAfter = (header: string | null, now: number = Date.now()) => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+// Normalize anything a provider or SDK throws into a PhraseProviderError
+export const toProviderError = (error: unknown): PhraseProviderError => {
+  if (error instanceof PhraseProviderError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  // SDK errors (e.g. @google/genai ApiError) carry the HTTP status
+  const status = typeof (error as { status?: unknown })?.status === 'number'
+    ? (error as { status: number }).status
+    : undefined;
+
+  if (status !== undefined) return new PhraseProviderError(message, failureKindForStatus(status), status);
+  // fetch() rejects with a TypeError when the network is unreachable
+  if (error instanceof TypeError) return new PhraseProviderError(message, 'network-error');
+  if (error instanceof SyntaxError) return new PhraseProviderError(message, 'invalid-response');
+  return new PhraseProviderError(message, 'server-error');
+};
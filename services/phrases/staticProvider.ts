@@ -0,0 +1,53 @@
+import { PhraseContext, PhraseFile, PhraseProvider } from '../../types';
+import { parsePhraseText } from './prompt';
+import { failureKindForStatus, PhraseProviderError } from './providerError';
+
+const shuffle = <T,>(items: T[]) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Curated phrases from a JSON file (see PhraseFile, or a bare array), served in random order.
+// Body-specific phrases come first so the text matches what is on screen.
+export class StaticPhraseProvider implements PhraseProvider {
+  readonly name = 'static' as const;
+  private file: Promise<PhraseFile> | null = null;
+
+  constructor(private url: string) {}
+
+  private load() {
+    if (!this.file) {
+      this.file = fetch(this.url)
+        .then(response => {
+          if (!response.ok) {
+            throw new PhraseProviderError(`Phrase file ${this.url} returned ${response.status}`, failureKindForStatus(response.status), response.status);
+          }
+          return response.text();
+        })
+        .then(text => {
+          const data = JSON.parse(text);
+          return Array.isArray(data) ? { phrases: parsePhraseText(text) } : data as PhraseFile;
+        });
+      // Allow a retry on the next call if loading failed
+      this.file.catch(() => { this.file = null; });
+    }
+    return this.file;
+  }
+
+  async generatePhrases(count: number, context?: PhraseContext): Promise<string[]> {
+    const file = await this.load();
+    const bodyName = context?.body.name;
+
+    const specific = bodyName ? shuffle(file.bodies?.[bodyName] ?? []) : [];
+    const general = shuffle(file.phrases ?? []);
+    const facts = bodyName && context?.includeFact ? shuffle(file.facts?.[bodyName] ?? []).slice(0, 1) : [];
+
+    const result = [...facts, ...specific, ...general].slice(0, count);
+    if (result.length === 0) throw new PhraseProviderError(`Phrase file ${this.url} is empty`, 'invalid-response');
+    return shuffle(result);
+  }
+}
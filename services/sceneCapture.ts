@@ -0,0 +1,202 @@
+import { addAfterEffect } from '@react-three/fiber';
+import { Camera, Scene, WebGLRenderer } from 'three';
+
+// Takes the visuals home: high-resolution stills and WebM recordings of the 3D canvas,
+// optionally with the phrase burned in and the app's sound mixed in.
+//
+// The WebGL canvas is cleared after each frame is shown, so it is only read right after
+// a render: stills render once themselves, recordings with an overlay copy each frame
+// from R3F's after-render hook.
+
+export interface CaptureTarget {
+  gl: WebGLRenderer;
+  scene: Scene;
+  camera: Camera;
+}
+
+// Text burned into captures
+export interface CaptureOverlay {
+  phrase: string;
+  title: string; // Body or system name, small in the corner
+}
+
+const VIDEO_FPS = 30;
+const VIDEO_BITS_PER_SECOND = 8_000_000;
+export const MAX_RECORDING_MS = 60_000; // Stops on its own; keeps memory in check at kiosks
+
+// Preferred first; browsers differ in what they can encode
+const VIDEO_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+const SILENT_VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export class CaptureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CaptureError';
+  }
+}
+
+const timestamp = () => new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+
+export const downloadBlob = (blob: Blob, extension: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `nebula-${timestamp()}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Greedy word wrap to a maximum line width
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).forEach(word => {
+    const next = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(next).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Same look as the on-screen phrase: light, centered, warm gradient, soft shadow
+export const drawOverlay = (ctx: CanvasRenderingContext2D, width: number, height: number, overlay: CaptureOverlay) => {
+  const unit = Math.min(width, height) / 100;
+
+  ctx.save();
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.font = `300 ${Math.round(unit * 5)}px ui-sans-serif, system-ui, sans-serif`;
+  const lines = wrapText(ctx, `"${overlay.phrase}"`, width * 0.7);
+  const lineHeight = unit * 6.5;
+  const top = height / 2 - ((lines.length - 1) * lineHeight) / 2;
+
+  const gradient = ctx.createLinearGradient(width * 0.2, 0, width * 0.8, 0);
+  gradient.addColorStop(0, '#fef9c3');
+  gradient.addColorStop(0.5, '#fef08a');
+  gradient.addColorStop(1, '#eab308');
+  ctx.fillStyle = gradient;
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+  ctx.shadowBlur = unit * 2;
+  lines.forEach((text, i) => ctx.fillText(text, width / 2, top + i * lineHeight));
+
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.font = `200 ${Math.round(unit * 2.5)}px ui-sans-serif, system-ui, sans-serif`;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+  ctx.fillText(overlay.title.toUpperCase().split('').join(' '), unit * 4, unit * 4);
+  ctx.restore();
+};
+
+// Renders one frame at `scale` times the current resolution, with the overlay burned in
+export const takeSnapshot = (target: CaptureTarget, overlay: CaptureOverlay | null, scale: number): Promise<Blob> => {
+  const { gl, scene, camera } = target;
+  const pixelRatio = gl.getPixelRatio();
+  const cssWidth = gl.domElement.width / pixelRatio;
+  const cssHeight = gl.domElement.height / pixelRatio;
+  // Stay within what the GPU can render in one go
+  const maxSize = gl.capabilities.maxTextureSize;
+  const ratio = Math.min(pixelRatio * scale, maxSize / cssWidth, maxSize / cssHeight);
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new CaptureError('Snapshots need a 2D canvas, which this browser does not provide'));
+
+  try {
+    gl.setPixelRatio(ratio);
+    gl.render(scene, camera);
+    canvas.width = gl.domElement.width;
+    canvas.height = gl.domElement.height;
+    ctx.drawImage(gl.domElement, 0, 0);
+  } finally {
+    gl.setPixelRatio(pixelRatio);
+  }
+  if (overlay) drawOverlay(ctx, canvas.width, canvas.height, overlay);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new CaptureError('The snapshot could not be encoded'))), 'image/png');
+  });
+};
+
+export interface RecordingOptions {
+  overlay: (() => CaptureOverlay | null) | null; // Read every frame; null records the bare canvas
+  audio: MediaStream | null;
+}
+
+// One WebM recording of the canvas, from construction until stop() or the time limit
+export class SceneRecorder {
+  readonly finished: Promise<Blob>; // The video, once recording has stopped
+  private recorder: MediaRecorder;
+  private chunks: Blob[] = [];
+  private cleanup: (() => void)[] = [];
+
+  constructor(target: CaptureTarget, options: RecordingOptions) {
+    if (typeof MediaRecorder === 'undefined') throw new CaptureError('Video capture is not supported in this browser');
+    const mimeType = (options.audio ? VIDEO_TYPES : SILENT_VIDEO_TYPES).find(type => MediaRecorder.isTypeSupported(type));
+    if (!mimeType) throw new CaptureError('This browser cannot record WebM video');
+
+    const source = target.gl.domElement;
+    let video: MediaStream;
+    if (options.overlay) {
+      // Composite each rendered frame with the overlay on a 2D canvas and record that
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+      if (!ctx) throw new CaptureError('Video capture needs a 2D canvas, which this browser does not provide');
+      const overlay = options.overlay;
+      this.cleanup.push(addAfterEffect(() => {
+        if (canvas.width !== source.width || canvas.height !== source.height) {
+          canvas.width = source.width;
+          canvas.height = source.height;
+        }
+        ctx.drawImage(source, 0, 0);
+        const text = overlay();
+        if (text) drawOverlay(ctx, canvas.width, canvas.height, text);
+      }));
+      video = canvas.captureStream(VIDEO_FPS);
+    } else {
+      video = source.captureStream(VIDEO_FPS);
+    }
+
+    const tracks = [...video.getVideoTracks(), ...(options.audio?.getAudioTracks() ?? [])];
+    const stream = new MediaStream(tracks);
+
+    this.recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) this.chunks.push(e.data);
+    };
+    this.finished = new Promise((resolve, reject) => {
+      this.recorder.onstop = () => {
+        this.release(video);
+        resolve(new Blob(this.chunks, { type: 'video/webm' }));
+      };
+      this.recorder.onerror = () => {
+        this.release(video);
+        reject(new CaptureError('Video recording failed'));
+      };
+    });
+
+    // Hand over encoded data every second rather than all at once at the end
+    this.recorder.start(1000);
+    const limit = window.setTimeout(() => this.stop(), MAX_RECORDING_MS);
+    this.cleanup.push(() => window.clearTimeout(limit));
+  }
+
+  get recording() {
+    return this.recorder.state === 'recording';
+  }
+
+  stop() {
+    if (this.recorder.state !== 'inactive') this.recorder.stop();
+  }
+
+  private release(video: MediaStream) {
+    this.cleanup.forEach(fn => fn());
+    this.cleanup = [];
+    // Only the canvas tracks are ours; the audio stream belongs to the audio service
+    video.getTracks().forEach(track => track.stop());
+  }
+}
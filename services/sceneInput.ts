@@ -0,0 +1,72 @@
+import { HandFrame } from '../types';
+import { BimanualTransform, IDENTITY_TRANSFORM } from './bimanual';
+
+// Scene controls eased toward the active input source's target once per render frame.
+// Sources (hands, or mouse/touch/keyboard) only set a SceneTarget; the easing is shared.
+// Kept in a ref and read inside useFrame, so input never re-renders React; only
+// crossings of the expansion bands are reported.
+
+export interface SceneInput {
+  expansion: number; // 0 (contracted/Planet) to 1 (expanded/Universe)
+  rotation: { x: number, y: number }; // Steering, -1 to 1 per axis
+  transform: BimanualTransform; // Two-hand zoom and roll
+}
+
+// Where an input source wants the scene to go
+export interface SceneTarget {
+  expansion: number;
+  steer: { x: number, y: number }; // Applied directly, sources do their own smoothing
+  transform: BimanualTransform;
+}
+
+// Coarse expansion for the UI (body name fades in, phrase fades out)
+export type ExpansionBand = 'contracted' | 'between' | 'expanded';
+
+// Per-frame easing rates, as tuned at 60 fps
+const EXPANSION_RATE = 0.1;
+const TRANSFORM_RATE = 0.15;
+
+// Same easing at any frame rate
+const frameLerp = (rate: number, deltaSeconds: number) => 1 - Math.pow(1 - rate, deltaSeconds * 60);
+
+export const createSceneInput = (): SceneInput => ({
+  expansion: 1,
+  rotation: { x: 0, y: 0 },
+  transform: { ...IDENTITY_TRANSFORM }
+});
+
+export const createSceneTarget = (): SceneTarget => ({
+  expansion: 1,
+  steer: { x: 0, y: 0 },
+  transform: { ...IDENTITY_TRANSFORM }
+});
+
+export const getExpansionBand = (expansion: number): ExpansionBand =>
+  expansion < 0.3 ? 'contracted' : expansion > 0.5 ? 'expanded' : 'between';
+
+// Target from the hands. transformTarget is the bimanual target for this frame.
+export const handSceneTarget = (frame: HandFrame | null, transformTarget: BimanualTransform): SceneTarget => {
+  // Two hands steer from their midpoint, no hand doesn't steer
+  const steer = frame?.bimanual?.center ?? frame?.position ?? { x: 0.5, y: 0.5 };
+  return {
+    // Only a closed fist contracts the universe; without a hand it drifts back out
+    expansion: frame?.gesture === 'fist' ? 0 : 1,
+    steer: { x: (0.5 - steer.x) * 2, y: (steer.y - 0.5) * 2 },
+    // Two-hand stretch/twist; relaxes back to identity with a single hand
+    transform: transformTarget
+  };
+};
+
+// Advances input in place toward the target
+export const stepSceneInput = (input: SceneInput, target: SceneTarget, deltaSeconds: number) => {
+  input.expansion += (target.expansion - input.expansion) * frameLerp(EXPANSION_RATE, deltaSeconds);
+
+  input.rotation.x = target.steer.x;
+  input.rotation.y = target.steer.y;
+
+  const k = frameLerp(TRANSFORM_RATE, deltaSeconds);
+  input.transform = {
+    scale: input.transform.scale + (target.transform.scale - input.transform.scale) * k,
+    roll: input.transform.roll + (target.transform.roll - input.transform.roll) * k
+  };
+};
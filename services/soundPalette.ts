@@ -0,0 +1,32 @@
+import { CelestialBodyConfig, SoundPalette, SurfaceGeneratorType } from '../types';
+
+// Tonal palettes for bodies without their own: stars drone in open fifths, moons are
+// sparse and high, planets pick a scale from how they look and sink lower the bigger
+// they are.
+
+const SCALES: Record<SurfaceGeneratorType, number[]> = {
+  banded: [0, 2, 6, 7, 11], // Lydian colors for gas giants
+  terrestrial: [0, 2, 4, 7, 9], // Major pentatonic
+  noise: [0, 3, 5, 7, 10], // Minor pentatonic
+  solid: [0, 2, 4, 6, 8, 10] // Whole tone
+};
+
+const STAR_PALETTE: SoundPalette = { root: 108, scale: [0, 7, 12, 19, 24] };
+const MOON_PALETTE: SoundPalette = { root: 216, scale: [0, 5, 7, 12] };
+
+const MIN_ROOT = 64;
+const MAX_ROOT = 320;
+
+export const getSoundPalette = (body: CelestialBodyConfig): SoundPalette => {
+  if (body.sound) return body.sound;
+  if (body.type === 'star') return STAR_PALETTE;
+  if (body.type === 'moon') return MOON_PALETTE;
+
+  // Radius 0-10 maps from high to low, an octave and a bit
+  const size = Math.min(Math.max(body.radius / 10, 0), 1);
+  return {
+    root: MAX_ROOT * Math.pow(MIN_ROOT / MAX_ROOT, size),
+    scale: SCALES[body.textureType],
+    waveform: body.textureType === 'banded' ? 'sawtooth' : 'triangle'
+  };
+};
@@ -0,0 +1,56 @@
+import { GestureEvent, Handedness } from '../types';
+
+// Horizontal hand swipes from the filtered hand position: a mostly horizontal move
+// covering enough of the frame within a short window. Pure, like handSignal.
+
+export interface SwipeOptions {
+  windowMs: number; // The move must happen within this time
+  minDistance: number; // Normalized image width
+  maxSlope: number; // Vertical travel allowed per unit of horizontal travel
+  cooldownMs: number; // Ignores the hand coming back after a swipe
+}
+
+export const DEFAULT_SWIPE_OPTIONS: SwipeOptions = {
+  windowMs: 300,
+  minDistance: 0.25,
+  maxSlope: 0.5,
+  cooldownMs: 700
+};
+
+export interface SwipeState {
+  samples: { x: number, y: number, t: number }[];
+  cooldownUntil: number;
+}
+
+export const createSwipeState = (): SwipeState => ({ samples: [], cooldownUntil: 0 });
+
+// Advance one hand by one frame. Pass null when the hand isn't tracked.
+export const updateSwipe = (
+  state: SwipeState,
+  position: { x: number, y: number } | null,
+  timestamp: number,
+  hand: Handedness,
+  options: SwipeOptions = DEFAULT_SWIPE_OPTIONS
+): { state: SwipeState, events: GestureEvent[] } => {
+  if (!position) {
+    return { state: { ...state, samples: [] }, events: [] };
+  }
+
+  const samples = [...state.samples, { ...position, t: timestamp }]
+    .filter(s => timestamp - s.t <= options.windowMs);
+  const first = samples[0];
+  const dx = position.x - first.x;
+  const dy = position.y - first.y;
+
+  const isSwipe = timestamp >= state.cooldownUntil
+    && Math.abs(dx) >= options.minDistance
+    && Math.abs(dy) <= Math.abs(dx) * options.maxSlope;
+  if (!isSwipe) return { state: { ...state, samples }, events: [] };
+
+  // Image x grows toward the user's left
+  const direction = dx < 0 ? 'right' : 'left';
+  return {
+    state: { samples: [], cooldownUntil: timestamp + options.cooldownMs },
+    events: [{ type: 'swipe', hand, direction, timestamp }]
+  };
+};
@@ -0,0 +1,57 @@
+import { UnitSystem } from '../types';
+
+// Display formatting for body info. Values arrive in metric base units (km, kg,
+// hours, days) and are converted for the chosen system.
+
+const KM_PER_MILE = 1.609344;
+const KG_PER_POUND = 0.45359237;
+const HOURS_PER_DAY = 24;
+const DAYS_PER_YEAR = 365.25;
+
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+const toSuperscript = (n: number) =>
+  String(n).replace('-', '⁻').replace(/[0-9]/g, d => SUPERSCRIPT_DIGITS[Number(d)]);
+
+const formatNumber = (value: number) =>
+  value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+// 3 significant figures, whole numbers from 1000 up
+const formatReadable = (value: number) =>
+  Math.abs(value) >= 1000 ? formatNumber(value) : value.toLocaleString(undefined, { maximumSignificantDigits: 3 });
+
+// 1.90 × 10²⁷
+const formatScientific = (value: number) => {
+  const exponent = Math.floor(Math.log10(Math.abs(value)));
+  const mantissa = value / Math.pow(10, exponent);
+  return `${mantissa.toFixed(2)} × 10${toSuperscript(exponent)}`;
+};
+
+// Large distances read better in millions/billions
+const formatLarge = (value: number, unit: string) => {
+  if (value >= 1e9) return `${formatReadable(value / 1e9)} billion ${unit}`;
+  if (value >= 1e6) return `${formatReadable(value / 1e6)} million ${unit}`;
+  return `${formatNumber(value)} ${unit}`;
+};
+
+export const formatLength = (km: number, system: UnitSystem) =>
+  system === 'metric' ? formatLarge(km, 'km') : formatLarge(km / KM_PER_MILE, 'mi');
+
+export const formatMass = (kg: number, system: UnitSystem) =>
+  system === 'metric' ? `${formatScientific(kg)} kg` : `${formatScientific(kg / KG_PER_POUND)} lb`;
+
+// Rotation: hours for fast spinners, days beyond two days; retrograde is noted
+export const formatDayLength = (hours: number) => {
+  const abs = Math.abs(hours);
+  const text = abs < 2 * HOURS_PER_DAY
+    ? `${formatReadable(abs)} hours`
+    : `${formatReadable(abs / HOURS_PER_DAY)} Earth days`;
+  return hours < 0 ? `${text} (retrograde)` : text;
+};
+
+export const formatYearLength = (days: number) =>
+  days < 2 * DAYS_PER_YEAR ? `${formatReadable(days)} Earth days` : `${formatReadable(days / DAYS_PER_YEAR)} Earth years`;
+
+// "11.2 × Earth", "0.38 × Earth"
+export const formatRatio = (value: number, reference: number, name: string) =>
+  `${formatReadable(value / reference)} × ${name}`;
@@ -15,6 +15,63 @@ export interface PhraseResponse {
   phrases: string[];
 }
 
+// Surface generator used to distribute palette colors over a body (see generation/surfaces.ts)
+export type SurfaceGeneratorType = 'banded' | 'noise' | 'solid' | 'terrestrial';
+
+// 'system' lays out the whole catalog around this body (the Sun view)
+export type BodyLayout = 'body' | 'system';
+
+// Thresholds for the terrestrial generator. Palette order:
+// [deep ocean, mid ocean, shallow water, forest, grassland, mountain/desert, ice]
+export interface BiomeParams {
+  seaLevel: number; // Terrain height below this is ocean
+  shallowDepth: number; // Depth below sea level still drawn as shallow water
+  midDepth: number; // Depth below sea level still drawn as mid ocean
+  mountainDetail: number; // Detail noise above this is mountain
+  mountainHeight: number; // Terrain height above this is mountain
+  wetMoisture: number; // Moisture above this grows vegetation
+  forestMoisture: number; // Moisture above this is deep forest
+  desertMoisture: number; // Moisture below this is desert
+}
+
+export interface CloudLayerParams {
+  threshold: number; // Cloud noise above this is cloud
+  frequency: number;
+  coverage: number; // Probability a cloudy sample is actually drawn as cloud (0-1)
+  height: number; // Relative lift above the surface
+  color: string;
+}
+
+export interface PolarCapParams {
+  latitude: number; // |latitude| (-1 to 1) above which caps form
+  color: string;
+}
+
+export interface SurfaceParams {
+  noiseScale?: number; // noise/terrestrial: base noise frequency
+  bandFrequency?: number; // banded: number of bands pole to pole
+  turbulence?: number; // banded: how much bands waver
+  turbulenceFrequency?: number; // banded: waves around the equator
+  variation?: number; // solid: brightness jitter
+  detailScale?: number; // terrestrial: terrain detail frequency
+  moistureScale?: number; // terrestrial: climate frequency
+  biomes?: Partial<BiomeParams>;
+  cloudLayer?: CloudLayerParams;
+  polarCaps?: PolarCapParams; // Not drawn over liquid surfaces
+}
+
+// Keplerian elements, J2000 epoch. Planets orbit the system body; moons name their parent.
+export interface OrbitalElements {
+  semiMajorAxis: number; // AU (informational; the view uses orbitRadius for scale)
+  eccentricity: number;
+  inclination: number; // Degrees
+  periodDays: number;
+  meanLongitude?: number; // Degrees at J2000
+  longitudeOfPerihelion?: number; // Degrees
+  longitudeOfAscendingNode?: number; // Degrees
+  parent?: string; // Name of the body this one orbits (moons)
+}
+
 export interface CelestialBodyConfig {
   name: string;
   type: 'star' | 'planet' | 'moon';
@@ -22,5 +79,327 @@ export interface CelestialBodyConfig {
   colors: string[]; // Palette
   hasRings: boolean;
   ringColors?: string[];
-  textureType: 'banded' | 'noise' | 'solid'; // How to distribute colors
+  textureType: SurfaceGeneratorType; // How to distribute colors
+  surface?: SurfaceParams; // Generator parameters, defaults per generator
+  layout?: BodyLayout; // Defaults to 'body'
+  orbitRadius?: number; // Orbit size in the system view (around the parent for moons); spaced automatically when omitted
+  orbit?: OrbitalElements; // Circular orbit derived from orbitRadius when omitted
+  info?: BodyInfo; // Shown in the info card when the body is focused
+  sound?: SoundPalette; // Derived from the body's type and look when omitted
+}
+
+// Tonal palette for the generative sound layer
+export interface SoundPalette {
+  root: number; // Hz
+  scale: number[]; // Semitones above the root that the voices wander between
+  waveform?: 'sine' | 'triangle' | 'sawtooth' | 'square'; // Defaults to sine
+}
+
+// Continuous controls for the generative sound layer, all normalized
+export interface AudioModulation {
+  openness: number; // 0 (closed) to 1 (open): filter cutoff
+  pan: number; // -1 (left) to 1 (right): stereo position
+  rotationSpeed: number; // 0 to 1: voice detune spread
+  expansion: number; // 0 (body) to 1 (universe): reverb send
+}
+
+// Physical facts in metric base units; the info card converts for display
+export interface BodyInfo {
+  diameterKm?: number; // Mean
+  massKg?: number;
+  distanceKm?: number; // Mean distance from what it orbits (the star, or the parent for moons)
+  dayLengthHours?: number; // Sidereal rotation period; negative for retrograde rotation
+  yearLengthDays?: number; // Orbital period; taken from orbit.periodDays when omitted
+  moons?: number; // Known moons
+  description?: string; // One or two sentences
+}
+
+export type UnitSystem = 'metric' | 'imperial';
+
+// Simulation time for the system view
+export interface OrbitClockSettings {
+  epoch: Date; // Planets start at their real positions for this date
+  timeScale: number; // Simulated days per second, 0 pauses
+}
+
+// A set of bodies to explore, e.g. loaded from a JSON file
+export interface CelestialCatalog {
+  name: string;
+  bodies: CelestialBodyConfig[];
+  tour?: TourStop[]; // Order for next/previous and the guided tour; every body in catalog order when omitted
+}
+
+// One stop of the guided tour
+export interface TourStop {
+  body: string; // Body name
+  dwellMs?: number; // Time spent here before moving on; the app default when omitted
+}
+
+// What closing a fist focuses: any other body, or the next one in tour order
+export type NavigationMode = 'random' | 'sequential';
+
+// How ParticleSystem animates: vertex shader (default) or per-frame CPU loop
+export type ParticleRenderMode = 'gpu' | 'cpu';
+
+export type MorphEasing = 'linear' | 'easeInOutCubic' | 'easeOutCubic' | 'easeInOutSine';
+
+// Transition between bodies
+export interface MorphSettings {
+  durationMs: number; // 0 switches instantly
+  easing: MorphEasing;
+}
+
+// --- PERFORMANCE ---
+
+// Manual quality tiers; 'auto' lets the governor move between them to hit the target FPS
+export type QualityTier = 'low' | 'medium' | 'high';
+export type QualityPreset = QualityTier | 'auto';
+
+export interface QualitySettings {
+  particleCount: number;
+  starCount: number;
+  pixelRatio: number; // Upper bound, never above the device pixel ratio
+  detectionIntervalMs: number; // Minimum time between hand detections, 0 = every frame
+}
+
+export interface PerformanceStats {
+  fps: number;
+  frameMs: number; // Smoothed frame time
+  inferenceMs: number; // Smoothed hand detection time
+  preset: QualityPreset;
+  tier: QualityTier; // Tier in use (chosen by the governor under 'auto')
+}
+
+// --- HAND GESTURES ---
+
+// Normalized MediaPipe landmark (x/y in [0, 1] image space, z relative depth)
+export interface HandLandmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type GestureName = 'open_palm' | 'fist' | 'pinch' | 'point' | 'victory' | 'thumbs_up' | 'ok_sign';
+
+// Per-gesture confidence in [0, 1]
+export type GestureScores = Record<GestureName, number>;
+
+export type Handedness = 'Left' | 'Right';
+
+// 'acquiring' = just appeared, not reported yet; 'holding' = briefly lost, last values kept
+export type HandPresence = 'absent' | 'acquiring' | 'tracking' | 'holding';
+
+// One detected hand in a frame
+export interface TrackedHand {
+  handedness: Handedness;
+  handednessScore: number;
+  presence: 'tracking' | 'holding';
+  gesture: GestureName | null; // Committed (debounced) gesture for this hand
+  confidence: number;
+  openness: number; // Filtered
+  position: { x: number, y: number }; // Filtered
+  scores: GestureScores;
+}
+
+// Relative pose of two hands, ordered left-to-right in image space
+export interface BimanualPose {
+  distance: number; // Normalized image distance between hand centers
+  angle: number; // Radians, angle of the line from the left hand to the right hand
+  center: { x: number, y: number };
+}
+
+// Discrete hand events; the only tracking output that reaches React state
+export type GestureEvent =
+  | {
+      type: 'gesture-start';
+      hand: Handedness;
+      gesture: GestureName;
+      confidence: number;
+      previous: GestureName | null;
+      timestamp: number;
+    }
+  | {
+      type: 'gesture-end';
+      hand: Handedness;
+      gesture: GestureName;
+      timestamp: number;
+    }
+  | {
+      type: 'swipe';
+      hand: Handedness;
+      direction: 'left' | 'right'; // As the user sees it (the camera image is mirrored)
+      timestamp: number;
+    }
+  | {
+      // Hand reported after the acquire delay / after the lost grace period ran out
+      type: 'hand-found' | 'hand-lost';
+      hand: Handedness;
+      timestamp: number;
+    };
+
+// Continuous hand state from the latest processed video frame. Written to a ref every
+// inference and read by the scene each render frame, so it never re-renders React.
+// Top-level hand fields describe the primary (first detected) hand.
+export interface HandFrame {
+  handPresent: boolean; // False means no hand, not an open one
+  gesture: GestureName | null; // Committed (debounced) gesture
+  confidence: number;
+  openness: number | null; // 0 (closed) to 1 (fully open), null without a hand
+  position: { x: number, y: number } | null; // Hand center, normalized [0, 1], null without a hand
+  scores: GestureScores | null;
+  hands: TrackedHand[];
+  bimanual: BimanualPose | null; // Set only when two hands are visible
+  timestamp: number;
+}
+
+// --- INPUT ---
+
+// Which source is driving the scene; hands include replayed recordings
+export type InputMode = 'hand' | 'mouse' | 'touch' | 'keyboard';
+
+// What any input source can ask of the app. Hand gestures are mapped onto these.
+export type InputAction =
+  | { type: 'expand' }
+  | { type: 'contract' } // Focuses a new body, like closing a fist
+  | { type: 'new-phrase' }
+  | { type: 'next' } // Tour order
+  | { type: 'previous' }
+  | { type: 'select-body', index: number } // Position in tour order
+  | { type: 'capture' }; // Start (after a countdown) or stop a video capture
+
+// --- LANDMARK RECORDINGS ---
+
+// The part of a HandLandmarkerResult the hand pipeline reads
+export interface RecordedHandResult {
+  landmarks: HandLandmark[][];
+  handedness: { categoryName: string, score: number }[][];
+}
+
+export interface RecordedLandmarkFrame {
+  t: number; // ms since the recording started
+  result: RecordedHandResult;
+}
+
+// A captured detector stream, saved as JSON and replayed in place of the camera
+export interface LandmarkRecording {
+  version: 1;
+  recordedAt: string; // ISO date
+  durationMs: number;
+  frames: RecordedLandmarkFrame[];
+}
+
+export interface ReplayState {
+  positionMs: number;
+  durationMs: number;
+  playing: boolean;
+  loop: boolean;
+  speed: number; // Playback rate, 1 = as recorded
+}
+
+// Video capture: idle, counting down to the start, or recording
+export type CaptureState = 'idle' | 'countdown' | 'recording';
+
+// Where MediaPipe WASM and model files are loaded from
+export type MediaPipeAssetSourceName = 'local' | 'cdn';
+
+// Where music and sound effect files are loaded from (same `?assets=` option)
+export type AudioAssetSourceName = 'local' | 'cdn';
+
+export type AudioAssetName = 'bgm' | 'expand' | 'contract';
+
+// Mixer buses: music, the generative drone and SFX all feed master
+export type AudioChannel = 'master' | 'music' | 'drone' | 'sfx';
+
+// Spoken phrases and body facts through the Web Speech API
+export interface NarrationSettings {
+  enabled: boolean;
+  bodyInfo: boolean; // Also read the description of each focused body
+  lang: string | null; // BCP 47 tag; null follows the browser
+  voiceURI: string | null; // null picks the platform's default voice for the language
+  rate: number; // 0.5-2, 1 is normal speed
+}
+
+export interface AudioMixerSettings {
+  volumes: Record<AudioChannel, number>; // 0-1 slider positions
+  muted: boolean;
+}
+
+// loading -> ready, or failed (retry pending) -> ... -> synth once retries run out.
+// Sounds in failed and synth play their synthesized stand-in.
+export type AudioAssetState = 'loading' | 'ready' | 'failed' | 'synth';
+
+export interface AudioAssetStatus {
+  name: AudioAssetName;
+  state: AudioAssetState;
+  source: AudioAssetSourceName | null; // Where a ready sound came from
+  attempts: number;
+  receivedBytes: number; // Of the download in progress
+  totalBytes: number | null; // Unknown without a Content-Length
+  error?: string;
+}
+
+export interface AudioLoadProgress {
+  fraction: number; // 0-1 over all sounds, by bytes where known
+  done: boolean; // Every sound is ready or synthesized
+  assets: AudioAssetStatus[];
+}
+
+// Backend used to generate phrases
+export type PhraseProviderName = 'gemini' | 'openai' | 'static' | 'mock';
+
+// Something the visitor did, remembered so phrases can follow the session
+export interface PhraseInteraction {
+  type: 'focus' | 'expand'; // Closed fist on a body / opened hand into the universe
+  body: string; // Body name on screen at the time
+  timestamp: number;
+}
+
+// What is on screen when phrases are requested
+export interface PhraseContext {
+  body: CelestialBodyConfig;
+  history: PhraseInteraction[]; // Oldest first
+  includeFact: boolean; // Ask for one true short fact about the body
+}
+
+export interface PhraseProvider {
+  readonly name: PhraseProviderName;
+  // Resolves with fresh phrases or rejects; fallbacks are handled by the caller
+  generatePhrases(count: number, context?: PhraseContext): Promise<string[]>;
+}
+
+export interface PhraseProviderConfig {
+  provider: PhraseProviderName;
+  geminiApiKey: string;
+  openAiBaseUrl: string; // e.g. http://localhost:8080/v1 for a local LLM server
+  openAiModel: string;
+  openAiApiKey: string;
+  staticUrl: string; // Curated JSON phrase file
+  includeFacts: boolean; // Mix one true fact about the current body into each batch
+}
+
+// Curated phrase file served by the static provider
+export interface PhraseFile {
+  phrases: string[]; // General phrases, used for every body
+  bodies?: Record<string, string[]>; // Extra phrases per body name
+  facts?: Record<string, string[]>; // True short facts per body name
+}
+
+// Why a phrase request failed, as far as the queue is concerned
+export type PhraseFailureKind =
+  | 'rate-limited' // 429 / quota
+  | 'server-error' // 5xx
+  | 'network-error'
+  | 'invalid-response'
+  | 'not-configured' // Missing key or endpoint, never retried
+  | 'client-error'; // Other 4xx
+
+export type PhraseFallbackReason = PhraseFailureKind | 'circuit-open' | 'exhausted';
+
+// Where a served phrase came from
+export type PhraseSource = 'provider' | 'fallback';
+
+export interface PhraseResult {
+  text: string;
+  source: PhraseSource;
+  fallbackReason?: PhraseFallbackReason; // Set when source is 'fallback'
 }
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+import { AUDIO_ASSETS } from '../services/audioSources';
+
+// Provides the bundled copies of the music and sound effects under /audio. The mixkit.co
+// files (free to use in projects under the Mixkit license, but not to redistribute on
+// their own, so they are not committed) are downloaded once into node_modules/.cache,
+// then served from there during dev and copied into the build output. A file placed in
+// public/audio/ takes precedence, for building without network access. Sounds that
+// can't be fetched are left out with a warning; the app then falls back to mixkit.co.
+
+const FETCH_TIMEOUT_MS = 15000;
+
+interface AudioFile {
+  fileName: string; // Path under the site root, without the leading slash
+  url: string;
+}
+
+const AUDIO_FILES: AudioFile[] = Object.values(AUDIO_ASSETS).map(sources => ({
+  fileName: sources.local.replace(/^\//, ''),
+  url: sources.cdn
+}));
+
+export const audioAssets = (root: string): Plugin => {
+  const cacheDir = path.resolve(root, 'node_modules/.cache/nebula-audio');
+  const publicFile = (file: AudioFile) => path.join(root, 'public', file.fileName);
+  const cachedFile = (file: AudioFile) => path.join(cacheDir, path.basename(file.fileName));
+
+  return {
+    name: 'nebula-audio-assets',
+
+    async buildStart() {
+      // Unit tests run through this config too and never play sound
+      if (process.env.VITEST) return;
+      const missing = AUDIO_FILES.filter(file => !fs.existsSync(publicFile(file)) && !fs.existsSync(cachedFile(file)));
+      if (missing.length === 0) return;
+      fs.mkdirSync(cacheDir, { recursive: true });
+
+      await Promise.all(missing.map(async file => {
+        try {
+          const response = await fetch(file.url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          // Write under a temporary name so an interrupted download is never served
+          const target = cachedFile(file);
+          fs.writeFileSync(`${target}.part`, Buffer.from(await response.arrayBuffer()));
+          fs.renameSync(`${target}.part`, target);
+        } catch (e) {
+          this.warn(`Could not fetch ${file.url} (${e instanceof Error ? e.message : String(e)}); /${file.fileName} will be missing and the app will use mixkit.co.`);
+        }
+      }));
+    },
+
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const url = (req.url || '').split('?')[0];
+        const file = AUDIO_FILES.find(f => url === `/${f.fileName}`);
+        // Files in public/ are served by Vite itself
+        if (!file || fs.existsSync(publicFile(file)) || !fs.existsSync(cachedFile(file))) {
+          next();
+          return;
+        }
+        res.setHeader('Content-Type', 'audio/mpeg');
+        fs.createReadStream(cachedFile(file)).pipe(res);
+      });
+    },
+
+    generateBundle() {
+      // Files in public/ are copied by Vite itself
+      for (const file of AUDIO_FILES) {
+        if (fs.existsSync(publicFile(file)) || !fs.existsSync(cachedFile(file))) continue;
+        this.emitFile({
+          type: 'asset',
+          fileName: file.fileName,
+          source: fs.readFileSync(cachedFile(file))
+        });
+      }
+    }
+  };
+};
@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+
+// Serves the MediaPipe WASM runtime from node_modules during dev and copies it
+// into the build output under /mediapipe/wasm, next to a manifest.json recording
+// the package version and the size and SHA-256 of every runtime file. The same file
+// list is compiled into the app (see vite.config.ts), which checks what is actually
+// served against it, so a stale or partial copy on a kiosk is caught. The hand
+// landmarker model is not shipped in the npm
+// package; drop it into public/mediapipe/ and Vite copies it as-is.
+
+const PUBLIC_BASE = 'mediapipe';
+
+export const getMediaPipePackageDir = (root: string) =>
+  path.resolve(root, 'node_modules/@mediapipe/tasks-vision');
+
+export const readMediaPipeVersion = (root: string): string => {
+  const pkg = JSON.parse(fs.readFileSync(path.join(getMediaPipePackageDir(root), 'package.json'), 'utf-8'));
+  return pkg.version;
+};
+
+export interface MediaPipeFileInfo {
+  size: number;
+  sha256: string; // Hex
+}
+
+// Size and hash of each WASM runtime file in the installed package
+export const readMediaPipeFiles = (root: string): Record<string, MediaPipeFileInfo> => {
+  const wasmDir = path.join(getMediaPipePackageDir(root), 'wasm');
+  if (!fs.existsSync(wasmDir)) return {};
+  return Object.fromEntries(fs.readdirSync(wasmDir).map(file => {
+    const data = fs.readFileSync(path.join(wasmDir, file));
+    return [file, { size: data.length, sha256: crypto.createHash('sha256').update(data).digest('hex') }];
+  }));
+};
+
+export const mediapipeAssets = (root: string): Plugin => {
+  const wasmDir = path.join(getMediaPipePackageDir(root), 'wasm');
+  const manifest = () => JSON.stringify({ version: readMediaPipeVersion(root), files: readMediaPipeFiles(root) }, null, 2);
+
+  return {
+    name: 'nebula-mediapipe-assets',
+
+    configureServer(server) {
+      server.middlewares.use(`/${PUBLIC_BASE}`, (req, res, next) => {
+        const url = (req.url || '').split('?')[0];
+
+        if (url === '/manifest.json') {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(manifest());
+          return;
+        }
+
+        if (url.startsWith('/wasm/')) {
+          const file = path.join(wasmDir, path.basename(url));
+          if (fs.existsSync(file)) {
+            res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+            fs.createReadStream(file).pipe(res);
+            return;
+          }
+        }
+
+        next();
+      });
+    },
+
+    generateBundle() {
+      if (!fs.existsSync(wasmDir)) {
+        this.warn(`MediaPipe WASM not found at ${wasmDir}; offline hand tracking will be unavailable.`);
+        return;
+      }
+
+      for (const file of fs.readdirSync(wasmDir)) {
+        this.emitFile({
+          type: 'asset',
+          fileName: `${PUBLIC_BASE}/wasm/${file}`,
+          source: fs.readFileSync(path.join(wasmDir, file))
+        });
+      }
+
+      this.emitFile({
+        type: 'asset',
+        fileName: `${PUBLIC_BASE}/manifest.json`,
+        source: manifest()
+      });
+    }
+  };
+};
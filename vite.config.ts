@@ -1,6 +1,8 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { audioAssets } from './vite-plugins/audioAssets';
+import { mediapipeAssets, readMediaPipeFiles, readMediaPipeVersion } from './vite-plugins/mediapipeAssets';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +11,17 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mediapipeAssets(__dirname), audioAssets(__dirname)],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.PHRASE_PROVIDER': JSON.stringify(env.PHRASE_PROVIDER),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_MODEL': JSON.stringify(env.OPENAI_MODEL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.PHRASES_URL': JSON.stringify(env.PHRASES_URL),
+        'process.env.PHRASE_FACTS': JSON.stringify(env.PHRASE_FACTS),
+        '__MEDIAPIPE_VERSION__': JSON.stringify(readMediaPipeVersion(__dirname)),
+        '__MEDIAPIPE_FILES__': JSON.stringify(readMediaPipeFiles(__dirname))
       },
       resolve: {
         alias: {